@@ -1,4 +1,8 @@
-import puppeteer, {Browser, Page} from 'puppeteer';
+import puppeteer, {Browser, BrowserContext, CookieData, CookieSameSite, HTTPRequest, Page, ResourceType} from 'puppeteer';
+import * as fs from "node:fs";
+import path from "node:path";
+import {BrowserOptions, PageAuthentication} from "./type";
+import {AssetCache, CachedAsset} from "./cache";
 
 /**
  * Requests an image from a given URL using Puppeteer and returns its Base64 encoded data and MIME type.
@@ -21,13 +25,79 @@ export async function requestForImage(page: Page, url: string): Promise<{ imageB
     return { imageBase64, imageMimeType };
 }
 
+/**
+ * The browser context the conversion uses in each browser that was connected to instead of launched, so that its
+ * pages and cookies are kept apart from those of the browser's other users, see `launchBrowser` and `closeBrowser`.
+ */
+const connectedBrowsers = new WeakMap<Browser, BrowserContext>();
+
+/**
+ * The default browser arguments that weaken the browser's security for the sake of compatibility,
+ * see `BrowserOptions.secureBrowser`.
+ */
+const INSECURE_BROWSER_ARGS = [
+    /**
+     * `--no-sandbox`: Disables the Chromium sandbox.
+     * This is often required when running Puppeteer in restricted environments
+     * (e.g., Docker containers, CI/CD pipelines) where the sandbox might not
+     * have the necessary privileges, preventing the browser from launching.
+     * Use with caution in untrusted environments as it reduces security.
+     */
+    '--no-sandbox',
+    /**
+     * `--disable-setuid-sandbox`: Disables the setuid sandbox.
+     * Similar to `--no-sandbox`, this is necessary in some Linux environments
+     * to allow Chromium to run without elevated privileges.
+     */
+    '--disable-setuid-sandbox',
+    /**
+     * `--disable-web-security`: Disables the same-origin policy.
+     * This allows a page to make cross-origin requests without CORS restrictions.
+     * Useful if your Docusaurus site loads assets (e.g., fonts, images, scripts)
+     * from different domains or subdomains, which might be blocked by default.
+     * Use with extreme caution as it bypasses a fundamental web security feature.
+     */
+    '--disable-web-security',
+    /**
+     * `--disable-features=IsolateOrigins,site-per-process`: Disables site isolation.
+     * This can reduce memory consumption and potentially improve performance by
+     * preventing each cross-site frame from running in a separate process.
+     * It's often used in conjunction with `--disable-web-security` when dealing
+     * with complex cross-domain content.
+     */
+    '--disable-features=IsolateOrigins,site-per-process',
+    // Consider adding these for better stability/performance in server/CI environments:
+    // '--disable-dev-shm-usage', // Overcomes limited /dev/shm space in some environments (e.g., Docker)
+    // '--disable-accelerated-2d-canvas', // Disables hardware acceleration for 2D canvas
+    // '--disable-gpu', // Disables GPU hardware acceleration, useful in headless/server contexts
+    // '--single-process', // Runs browser in a single process, can reduce overhead but might be less stable
+];
+
 /**
  * Launches a new Puppeteer browser instance with a predefined set of configurations
  * optimized for headless operation and common use cases like PDF generation.
+ * With `browserWSEndpoint` or `browserURL`, connects to a running browser instead
+ * (e.g. a headless-shell container), which is left running when the conversion ends. The conversion then opens
+ * its pages in a browser context of its own, see `getBrowserContext`.
  *
+ * @param options Optional. Which browser to use and how to launch it, see `BrowserOptions`.
  * @returns {Promise<Browser>} A Promise that resolves to a Puppeteer `Browser` instance.
+ * @throws {Error} If the browser cannot be launched or connected to.
  */
-export async function launchBrowser(): Promise<Browser> {
+export async function launchBrowser(options: BrowserOptions = {}): Promise<Browser> {
+    if (options.browserWSEndpoint || options.browserURL) {
+        const browser = await puppeteer.connect(options.browserWSEndpoint
+            ? { browserWSEndpoint: options.browserWSEndpoint }
+            : { browserURL: options.browserURL });
+        try {
+            connectedBrowsers.set(browser, await browser.createBrowserContext());
+        } catch (error) {
+            await browser.disconnect();
+            throw error;
+        }
+        return browser;
+    }
+    
     return await puppeteer.launch({
         /**
          * Runs Puppeteer in headless mode.
@@ -37,6 +107,12 @@ export async function launchBrowser(): Promise<Browser> {
          * `false`: Runs the browser with a visible UI, useful for debugging and observation.
          */
         headless: true,
+        /**
+         * The Chrome or Chromium executable to run instead of the browser bundled with Puppeteer,
+         * e.g. a preinstalled, hardened system Chrome. Puppeteer's own default (including the
+         * `PUPPETEER_EXECUTABLE_PATH` environment variable) applies if undefined.
+         */
+        executablePath: options.executablePath,
         /**
          * An array of custom arguments to pass to the Chromium browser instance.
          * These arguments control various browser behaviors and settings.
@@ -49,43 +125,338 @@ export async function launchBrowser(): Promise<Browser> {
              * (e.g., 2560x1440 is a common large desktop resolution).
              */
             '--window-size=2560,1440',
-            /**
-             * `--no-sandbox`: Disables the Chromium sandbox.
-             * This is often required when running Puppeteer in restricted environments
-             * (e.g., Docker containers, CI/CD pipelines) where the sandbox might not
-             * have the necessary privileges, preventing the browser from launching.
-             * Use with caution in untrusted environments as it reduces security.
-             */
-            '--no-sandbox',
-            /**
-             * `--disable-setuid-sandbox`: Disables the setuid sandbox.
-             * Similar to `--no-sandbox`, this is necessary in some Linux environments
-             * to allow Chromium to run without elevated privileges.
-             */
-            '--disable-setuid-sandbox',
-            /**
-             * `--disable-web-security`: Disables the same-origin policy.
-             * This allows a page to make cross-origin requests without CORS restrictions.
-             * Useful if your Docusaurus site loads assets (e.g., fonts, images, scripts)
-             * from different domains or subdomains, which might be blocked by default.
-             * Use with extreme caution as it bypasses a fundamental web security feature.
-             */
-            '--disable-web-security',
-            /**
-             * `--disable-features=IsolateOrigins,site-per-process`: Disables site isolation.
-             * This can reduce memory consumption and potentially improve performance by
-             * preventing each cross-site frame from running in a separate process.
-             * It's often used in conjunction with `--disable-web-security` when dealing
-             * with complex cross-domain content.
-             */
-            '--disable-features=IsolateOrigins,site-per-process',
-            // Consider adding these for better stability/performance in server/CI environments:
-            // '--disable-dev-shm-usage', // Overcomes limited /dev/shm space in some environments (e.g., Docker)
-            // '--disable-accelerated-2d-canvas', // Disables hardware acceleration for 2D canvas
-            // '--disable-gpu', // Disables GPU hardware acceleration, useful in headless/server contexts
-            // '--single-process', // Runs browser in a single process, can reduce overhead but might be less stable
+            // The arguments below weaken the browser's security. They are left out with `secureBrowser`.
+            ...(options.secureBrowser ? [] : INSECURE_BROWSER_ARGS),
+            // Additional arguments given by the user, e.g. '--disable-dev-shm-usage' or '--proxy-server=...'.
+            ...(options.browserArgs || []),
         ],
         // You can also add a `timeout` for the browser launch itself if it's sometimes slow
         // timeout: 60000, // e.g., 60 seconds
     });
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the browser context the conversion opens its pages and sets its cookies in: a context of its own in
+ * a browser that was connected to, which leaves the pages and cookies of the browser's other users untouched,
+ * and the default context of a launched browser.
+ *
+ * @param browser A browser returned by `launchBrowser`.
+ * @returns {BrowserContext} The browser context of the conversion.
+ */
+export function getBrowserContext(browser: Browser): BrowserContext {
+    return connectedBrowsers.get(browser) || browser.defaultBrowserContext();
+}
+
+/**
+ * Ends the use of a browser returned by `launchBrowser`. A launched browser is closed. A browser that was
+ * connected to is left running for its other users: only the browser context of the conversion is closed,
+ * with its pages and cookies, before disconnecting.
+ *
+ * @param browser The browser to close or disconnect from.
+ * @returns {Promise<void>} A Promise that resolves once the browser is closed or disconnected.
+ */
+export async function closeBrowser(browser: Browser): Promise<void> {
+    const context = connectedBrowsers.get(browser);
+    if (!context) {
+        await browser.close();
+        return;
+    }
+    await context.close().catch(() => undefined);
+    connectedBrowsers.delete(browser);
+    await browser.disconnect();
+}
+
+/**
+ * The asset cache of each browser the pages of a conversion are opened in, see `useAssetCache` and `openPage`.
+ */
+const assetCaches = new WeakMap<Browser, AssetCache>();
+
+/**
+ * The kinds of requests whose responses are served through the asset cache.
+ */
+const CACHED_RESOURCE_TYPES: ResourceType[] = ['image', 'font', 'stylesheet', 'script'];
+
+/**
+ * The maximum time to wait for the response to an asset request, in milliseconds. A cached asset is served
+ * once it has passed.
+ */
+const ASSET_TIMEOUT_MS = 30000;
+
+/**
+ * The request headers that are not passed on when an asset is requested for the asset cache: they describe the
+ * connection, which Node.js manages itself.
+ */
+const CONNECTION_REQUEST_HEADERS = ['host', 'connection', 'content-length', 'keep-alive', 'upgrade'];
+
+/**
+ * The response headers that are not stored with a cached asset: they describe the transfer of the body, which
+ * Node.js has already decoded.
+ */
+const TRANSFER_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive'];
+
+/**
+ * Makes the pages opened afterwards in a browser load their images, fonts, stylesheets and scripts through an
+ * asset cache, see `AssetCache` and `openPage`.
+ *
+ * @param browser A browser returned by `launchBrowser`.
+ * @param assetCache The asset cache to use.
+ */
+export function useAssetCache(browser: Browser, assetCache: AssetCache): void {
+    assetCaches.set(browser, assetCache);
+}
+
+/**
+ * Opens a new page (tab) in the browser context of the conversion (see `getBrowserContext`) and applies the
+ * authentication of the documentation site to it: the headers (e.g. an API token or the `Authorization` header
+ * for basic authentication) are added to every request the page makes to the site's origins. Requests to other
+ * origins are left untouched.
+ *
+ * With an asset cache (see `useAssetCache`), the page's images, fonts, stylesheets and scripts are requested by
+ * Node.js instead, with the page's cookies and headers, and served from the cache where possible.
+ *
+ * @param browser The Puppeteer `Browser` instance to open the page in.
+ * @param auth Optional. The authentication to apply.
+ * @returns {Promise<Page>} A Promise that resolves to the new page.
+ */
+export async function openPage(browser: Browser, auth?: PageAuthentication): Promise<Page> {
+    const page = await getBrowserContext(browser).newPage();
+    const assetCache = assetCaches.get(browser);
+    const hasHeaders = !!auth && Object.keys(auth.headers).length > 0;
+    if (!hasHeaders && !assetCache) {
+        return page;
+    }
+    // Unlike `page.setExtraHTTPHeaders()`, which sends the headers with every request, intercepting the requests
+    // allows to restrict the headers to the documentation site. Note that intercepted requests bypass the browser cache.
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+        if (request.isInterceptResolutionHandled()) {
+            return;
+        }
+        let origin: string;
+        try {
+            origin = new URL(request.url()).origin;
+        } catch (e) {
+            origin = '';
+        }
+        const headers = hasHeaders && auth.origins.includes(origin) ? { ...request.headers(), ...auth.headers } : undefined;
+        if (assetCache && origin.startsWith('http') && request.method() === 'GET' && CACHED_RESOURCE_TYPES.includes(request.resourceType())) {
+            respondWithCachedAsset(page, request, assetCache, headers || request.headers())
+                .catch(error => console.warn(`[Cache] Could not serve the asset ${request.url()}: ${error instanceof Error ? error.message : String(error)}`));
+        } else if (headers) {
+            request.continue({ headers });
+        } else {
+            request.continue();
+        }
+    });
+    return page;
+}
+
+/**
+ * Helper function: Answers an intercepted asset request through the asset cache. An asset already confirmed in this
+ * run is served from the cache. Otherwise, it is requested with the validators of the cached copy, if any: a
+ * `304 Not Modified` response confirms the cached copy, a `200 OK` response replaces it. If the request fails and
+ * there is no cached copy, the browser is left to load the asset itself.
+ *
+ * @param page The page that made the request, whose cookies are sent along.
+ * @param request The intercepted request.
+ * @param assetCache The asset cache.
+ * @param requestHeaders The headers to send, including the authentication of the documentation site.
+ */
+async function respondWithCachedAsset(page: Page, request: HTTPRequest, assetCache: AssetCache, requestHeaders: { [name: string]: string }): Promise<void> {
+    const url = request.url();
+    const cached = assetCache.lookup(url);
+    const respondWith = (asset: CachedAsset) => request.respond({ status: asset.status, headers: asset.headers, body: asset.body });
+    if (cached?.confirmed) {
+        await respondWith(cached.asset);
+        return;
+    }
+    
+    const headers: { [name: string]: string } = {};
+    for (const [name, value] of Object.entries(requestHeaders)) {
+        if (!CONNECTION_REQUEST_HEADERS.includes(name.toLowerCase())) {
+            headers[name] = value;
+        }
+    }
+    const cookies = await page.cookies(url);
+    if (cookies.length > 0) {
+        headers['Cookie'] = cookies.map(it => `${it.name}=${it.value}`).join('; ');
+    }
+    if (cached?.asset.validator.etag) {
+        headers['If-None-Match'] = cached.asset.validator.etag;
+    }
+    if (cached?.asset.validator.lastModified) {
+        headers['If-Modified-Since'] = cached.asset.validator.lastModified;
+    }
+    
+    let response: Response;
+    try {
+        response = await fetch(url, { headers, signal: AbortSignal.timeout(ASSET_TIMEOUT_MS) });
+    } catch (error) {
+        if (cached) {
+            console.warn(`[Cache] Could not request ${url}, serving the cached copy: ${error instanceof Error ? error.message : String(error)}`);
+            assetCache.reuse(url, cached.asset);
+            await respondWith(cached.asset);
+        } else {
+            await request.continue({ headers: requestHeaders });
+        }
+        return;
+    }
+    
+    if (response.status === 304 && cached) {
+        assetCache.reuse(url, cached.asset);
+        await respondWith(cached.asset);
+        return;
+    }
+    const responseHeaders: { [name: string]: string } = {};
+    response.headers.forEach((value, name) => {
+        if (!TRANSFER_RESPONSE_HEADERS.includes(name)) {
+            responseHeaders[name] = value;
+        }
+    });
+    const asset: CachedAsset = {
+        status: response.status,
+        headers: responseHeaders,
+        validator: {
+            ...(response.headers.get('etag') ? { etag: response.headers.get('etag')! } : {}),
+            ...(response.headers.get('last-modified') ? { lastModified: response.headers.get('last-modified')! } : {}),
+        },
+        body: Buffer.from(await response.arrayBuffer()),
+    };
+    if (response.status === 200 && !/no-store/i.test(response.headers.get('cache-control') || '')) {
+        assetCache.store(url, asset);
+    }
+    await respondWith(asset);
+}
+
+/**
+ * Reads a cookie jar file, to be loaded into the browser before the documentation is crawled
+ * (e.g. the session cookies of a single sign-on). Two formats are supported:
+ *
+ * - The Netscape cookie file format written by curl, wget and many browser extensions ("cookies.txt"):
+ *   one cookie per line with the tab-separated fields domain, include subdomains, path, secure, expiry, name and value.
+ *   Lines starting with "#HttpOnly_" hold HTTP-only cookies; other lines starting with "#" are comments.
+ * - JSON: an array of cookies (as exported by browser extensions or Puppeteer's `page.cookies()`), or an object
+ *   with a `cookies` array (as written by Playwright's `storageState()`).
+ *
+ * @param filePath The path of the cookie jar file. Files ending in .json, or starting with "[" or "{", are read as JSON.
+ * @returns {CookieData[]} The cookies, ready for `BrowserContext.setCookie()`, see `getBrowserContext`.
+ * @throws {Error} If the file does not exist or contains no valid cookie.
+ */
+export function loadCookieJar(filePath: string): CookieData[] {
+    const absolutePath = path.resolve(filePath);
+    if (!fs.existsSync(absolutePath)) {
+        throw new Error(`Cookie jar file not found: ${absolutePath}`);
+    }
+    const content = fs.readFileSync(absolutePath, 'utf-8');
+    const isJson = absolutePath.toLowerCase().endsWith('.json') || /^\s*[\[{]/.test(content);
+    const cookies = isJson ? parseJsonCookieJar(content, absolutePath) : parseNetscapeCookieJar(content);
+    if (cookies.length === 0) {
+        throw new Error(`Cookie jar file "${absolutePath}" contains no cookies.`);
+    }
+    return cookies;
+}
+
+/**
+ * Helper function: Parses the content of a cookie file in the Netscape format, see `loadCookieJar`.
+ */
+function parseNetscapeCookieJar(content: string): CookieData[] {
+    const cookies: CookieData[] = [];
+    for (let line of content.split(/\r?\n/)) {
+        let httpOnly = false;
+        if (line.startsWith('#HttpOnly_')) {
+            httpOnly = true;
+            line = line.substring('#HttpOnly_'.length);
+        } else if (line.trim() === '' || line.startsWith('#')) {
+            continue;
+        }
+        const fields = line.split('\t');
+        if (fields.length < 6) {
+            continue;
+        }
+        const [domain, includeSubdomains, cookiePath, secure, expires, name, value = ''] = fields;
+        const expiresSeconds = parseInt(expires, 10);
+        cookies.push({
+            name,
+            value,
+            // A leading dot makes the cookie apply to the subdomains as well.
+            domain: includeSubdomains.toUpperCase() === 'TRUE' && !domain.startsWith('.') ? '.' + domain : domain,
+            path: cookiePath || '/',
+            secure: secure.toUpperCase() === 'TRUE',
+            httpOnly,
+            // An expiry of 0 marks a session cookie.
+            ...(expiresSeconds > 0 ? { expires: expiresSeconds } : {}),
+        });
+    }
+    return cookies;
+}
+
+/**
+ * A cookie as written by the browser extensions and automation tools `loadCookieJar` accepts. Only the name, the value
+ * and either the domain or the URL are required; the other fields differ between the tools.
+ */
+interface JsonCookie {
+    name: string;
+    value: string;
+    domain?: string;
+    url?: string;
+    path?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+    /**
+     * The expiry in seconds since the epoch, as written by Puppeteer and Playwright.
+     */
+    expires?: number;
+    /**
+     * The expiry in seconds since the epoch, as written by browser extensions.
+     */
+    expirationDate?: number;
+    sameSite?: string;
+}
+
+/**
+ * Helper function: Tells whether an entry of a JSON cookie file is a usable cookie, see `JsonCookie`.
+ */
+function isJsonCookie(value: unknown): value is JsonCookie {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const cookie = value as { [key: string]: unknown };
+    return typeof cookie.name === 'string'
+        && typeof cookie.value === 'string'
+        && ((typeof cookie.domain === 'string' && cookie.domain !== '') || (typeof cookie.url === 'string' && cookie.url !== ''));
+}
+
+/**
+ * Helper function: Parses the content of a JSON cookie file, see `loadCookieJar`.
+ */
+function parseJsonCookieJar(content: string, source: string): CookieData[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Cookie jar file "${source}" is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // Either a plain array of cookies, or an object holding them in `cookies` (e.g. Playwright's storage state).
+    const entries: unknown[] = Array.isArray(parsed)
+        ? parsed
+        : parsed && typeof parsed === 'object' && 'cookies' in parsed && Array.isArray(parsed.cookies) ? parsed.cookies : [];
+    const sameSiteValues: { [value: string]: CookieSameSite } = { strict: 'Strict', lax: 'Lax', none: 'None', no_restriction: 'None' };
+    return entries
+        .filter(isJsonCookie)
+        .map(it => {
+            const expires = it.expires ?? it.expirationDate;
+            const sameSite = typeof it.sameSite === 'string' ? sameSiteValues[it.sameSite.toLowerCase()] : undefined;
+            return {
+                name: it.name,
+                value: it.value,
+                // Some exports only carry the URL the cookie was set for.
+                domain: it.domain || new URL(it.url).hostname,
+                path: it.path || '/',
+                secure: !!it.secure,
+                httpOnly: !!it.httpOnly,
+                // Session cookies carry -1 (Puppeteer, Playwright) or no expiry at all (browser extensions).
+                ...(typeof expires === 'number' && expires > 0 ? { expires } : {}),
+                ...(sameSite ? { sameSite } : {}),
+            };
+        });
+}
@@ -0,0 +1,479 @@
+import path from "node:path";
+import * as fs from "node:fs";
+import {createHash} from "node:crypto";
+import {PageDetails, SidebarItem, TabsMode} from "./type";
+
+/**
+ * The default cache directory, relative to the current working directory. Like other build tools,
+ * the cache is kept below `node_modules/.cache`, which is usually ignored by version control.
+ */
+export const DEFAULT_CACHE_DIR = path.join('node_modules', '.cache', 'docusaurus-docs-to-pdf');
+
+/**
+ * The version of the format of cache entries and checkpoint files. Entries written in another format are ignored.
+ */
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * The version of this package. The processing of pages changes between releases, so entries and checkpoints
+ * written by another version are ignored as well.
+ */
+const TOOL_VERSION = readToolVersion();
+
+/**
+ * Helper function: Reads the version of this package from its `package.json`, one directory above the compiled
+ * (`dist`) and the source (`src`) files.
+ */
+function readToolVersion(): string {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version || 'unknown';
+    } catch (e) {
+        return 'unknown';
+    }
+}
+
+/**
+ * Returns the fingerprint of the options a page is extracted with. The extracted content depends on them, so a page
+ * cached or checkpointed with another fingerprint is not reused.
+ *
+ * @param pageSummary The sidebar item of the page, whose section number is part of its headings.
+ * @param options The processing options of the page: which panels of Docusaurus `<Tabs>` are kept.
+ * @returns {string} The fingerprint.
+ */
+export function pageFingerprint(pageSummary: SidebarItem, options: { tabs?: TabsMode }): string {
+    return JSON.stringify({
+        tabs: options.tabs || 'all',
+        number: pageSummary.number || '',
+        // Category pages only number their title, see `numberHeadings`.
+        numberSubHeadings: pageSummary.children.length === 0,
+    });
+}
+
+/**
+ * A cache of extracted documentation pages on disk, so that later runs only re-render the pages that changed.
+ * Pages are looked up by URL and are only reused if their validator (see `openSitePageCache` in the converter)
+ * is unchanged. The assets the pages load are cached separately, see `AssetCache`.
+ */
+export interface PageCache {
+    /**
+     * The absolute path of the cache directory.
+     */
+    dir: string;
+    /**
+     * Returns the cached details of a page, with the anchor IDs of the current run, if the page has not changed
+     * since it was cached and was extracted with the same processing options.
+     *
+     * @param sidebarItem The page to look up.
+     * @param fingerprint The options the page is extracted with, see `pageFingerprint`.
+     * @returns {PageDetails | undefined} The cached details, or undefined if there is no valid entry.
+     */
+    lookup: (sidebarItem: SidebarItem, fingerprint: string) => PageDetails | undefined;
+    /**
+     * Stores the details of a freshly extracted page. Pages without a validator, failed pages and pages whose
+     * content did not finish rendering are not stored.
+     *
+     * @param pageDetails The extracted page.
+     * @param fingerprint The options the page was extracted with, see `pageFingerprint`.
+     */
+    store: (pageDetails: PageDetails, fingerprint: string) => void;
+    /**
+     * The number of pages that were reused from the cache and that were stored in it so far.
+     */
+    stats: { hits: number; stored: number };
+}
+
+/**
+ * An extracted page as written to disk by the page cache and the checkpoint, without its sidebar metadata.
+ */
+interface StoredPage {
+    url: string;
+    fingerprint: string;
+    /**
+     * The anchor ID the page had when it was stored. IDs are generated per run, so it is replaced on reuse.
+     */
+    pageId: string;
+    /**
+     * The local site URL the page was extracted from when converting a build directory, replaced on reuse
+     * as the local server listens on another port in every run.
+     */
+    siteUrl: string;
+    pageDetails: Pick<PageDetails, 'html' | 'headings' | 'numberedHeadings' | 'renderTimeouts'>;
+}
+
+/**
+ * A cache entry as written to disk, one JSON file per page.
+ */
+interface PageCacheEntry extends StoredPage {
+    formatVersion: number;
+    toolVersion: string;
+    validator: string;
+    cachedAt: string;
+}
+
+/**
+ * Helper function: Returns the file name (without extension) of the cache entry of a URL. The URL of the local server
+ * when converting a build directory is replaced by a placeholder, as the server listens on another port in every run.
+ */
+function toCacheKey(url: string, localSiteUrl?: string): string {
+    const cacheUrl = localSiteUrl && url.startsWith(localSiteUrl)
+        ? 'docs-to-pdf-site:/' + url.substring(localSiteUrl.length)
+        : url.replace(/#.*$/, '');
+    return createHash('sha256').update(cacheUrl).digest('hex');
+}
+
+/**
+ * Helper function: Converts the details of an extracted page into their stored form.
+ */
+function toStoredPage(pageDetails: PageDetails, fingerprint: string, localSiteUrl?: string): StoredPage {
+    return {
+        url: pageDetails.url,
+        fingerprint,
+        pageId: pageDetails.id,
+        siteUrl: localSiteUrl || '',
+        pageDetails: {
+            html: pageDetails.html,
+            headings: pageDetails.headings,
+            numberedHeadings: pageDetails.numberedHeadings,
+            renderTimeouts: pageDetails.renderTimeouts,
+        },
+    };
+}
+
+/**
+ * Helper function: Restores the details of a stored page for the sidebar item of the current run, moving
+ * the content over to the item's anchor ID and to the local site URL of this run.
+ */
+function restoreStoredPage(storedPage: StoredPage, sidebarItem: SidebarItem, localSiteUrl?: string): PageDetails {
+    const replaceAll = (text: string, search: string, replacement: string) => search ? text.split(search).join(replacement) : text;
+    const rebase = (text: string) => replaceAll(
+        replaceAll(text, storedPage.pageId, sidebarItem.id),
+        storedPage.siteUrl,
+        localSiteUrl || storedPage.siteUrl
+    );
+    const {html, headings, numberedHeadings, renderTimeouts} = storedPage.pageDetails;
+    return {
+        ...sidebarItem,
+        html: rebase(html),
+        headings: headings.map(it => ({ ...it, id: rebase(it.id) })),
+        ...(numberedHeadings ? { numberedHeadings: numberedHeadings.map(it => ({ ...it, anchor: rebase(it.anchor) })) } : {}),
+        ...(renderTimeouts ? { renderTimeouts } : {}),
+    };
+}
+
+/**
+ * Opens the page cache in a directory, creating the directory if needed.
+ *
+ * @param cacheDir The cache directory, see `DEFAULT_CACHE_DIR`.
+ * @param validators The validator of every page URL of this run, see `openSitePageCache` in the converter. Pages without one are
+ * neither looked up nor stored, as it could not be told whether they changed.
+ * @param localSiteUrl Optional. The URL of the local server when converting a build directory (e.g.
+ * "http://127.0.0.1:45123/"). It is left out of the cache keys and restored in the cached HTML.
+ * @returns {PageCache} The page cache.
+ */
+export function openPageCache(cacheDir: string, validators: { [url: string]: string }, localSiteUrl?: string): PageCache {
+    const dir = path.resolve(cacheDir, 'pages');
+    fs.mkdirSync(dir, { recursive: true });
+    const entryPath = (url: string) => path.join(dir, toCacheKey(url, localSiteUrl) + '.json');
+    const stats = { hits: 0, stored: 0 };
+    
+    return {
+        dir,
+        stats,
+        lookup: (sidebarItem, fingerprint) => {
+            const validator = validators[sidebarItem.url];
+            const filePath = entryPath(sidebarItem.url);
+            if (!validator || !fs.existsSync(filePath)) {
+                return undefined;
+            }
+            let entry: PageCacheEntry;
+            try {
+                entry = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            } catch (e) {
+                console.warn(`[Cache] Ignoring unreadable cache entry for ${sidebarItem.url}.`);
+                return undefined;
+            }
+            if (entry.formatVersion !== CACHE_FORMAT_VERSION || entry.toolVersion !== TOOL_VERSION || entry.validator !== validator || entry.fingerprint !== fingerprint) {
+                return undefined;
+            }
+            stats.hits++;
+            return restoreStoredPage(entry, sidebarItem, localSiteUrl);
+        },
+        store: (pageDetails, fingerprint) => {
+            const validator = validators[pageDetails.url];
+            if (!validator || pageDetails.error !== undefined || pageDetails.renderTimeouts !== undefined) {
+                return;
+            }
+            const entry: PageCacheEntry = {
+                formatVersion: CACHE_FORMAT_VERSION,
+                toolVersion: TOOL_VERSION,
+                ...toStoredPage(pageDetails, fingerprint, localSiteUrl),
+                validator,
+                cachedAt: new Date().toISOString(),
+            };
+            try {
+                fs.writeFileSync(entryPath(pageDetails.url), JSON.stringify(entry));
+                stats.stored++;
+            } catch (error) {
+                console.warn(`[Cache] Could not write the cache entry for ${pageDetails.url}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        },
+    };
+}
+
+/**
+ * An asset (an image, font, stylesheet or script) a page loaded, with the validators its response carried.
+ */
+export interface CachedAsset {
+    status: number;
+    /**
+     * The response headers, without those describing the transfer (e.g. `Content-Encoding` and `Content-Length`).
+     */
+    headers: { [name: string]: string };
+    /**
+     * The `ETag` and `Last-Modified` headers of the response, sent along when the asset is requested again.
+     */
+    validator: { etag?: string; lastModified?: string };
+    body: Buffer;
+}
+
+/**
+ * A cache of the assets the documentation pages load, on disk, so that later runs only download the assets that
+ * changed. A cached asset is reused once the site confirms that its validator is unchanged (a `304 Not Modified`
+ * response to a conditional request), after which it is served from the cache for the rest of the run. If the site
+ * cannot be reached, the cached asset is served as it is. See `openPage`, which serves the assets.
+ */
+export interface AssetCache {
+    /**
+     * The absolute path of the cache directory.
+     */
+    dir: string;
+    /**
+     * Returns the cached asset of a URL.
+     *
+     * @param url The URL of the asset.
+     * @returns The cached asset, and whether its validator was already confirmed in this run; undefined if it is not cached.
+     */
+    lookup: (url: string) => { asset: CachedAsset; confirmed: boolean } | undefined;
+    /**
+     * Reuses a cached asset for the rest of the run, once the site confirmed its validator or could not be reached.
+     *
+     * @param url The URL of the asset.
+     * @param asset The cached asset, see `lookup`.
+     */
+    reuse: (url: string, asset: CachedAsset) => void;
+    /**
+     * Stores a downloaded asset. Assets without a validator are only kept for the rest of the run, not written to disk,
+     * as it could not be told in a later run whether they changed.
+     *
+     * @param url The URL of the asset.
+     * @param asset The asset.
+     */
+    store: (url: string, asset: CachedAsset) => void;
+    /**
+     * The number of assets that were reused from the cache, and that were stored in it so far.
+     */
+    stats: { reused: number; stored: number };
+}
+
+/**
+ * The metadata of an asset as written to disk next to its body, one JSON file per asset.
+ */
+interface AssetCacheEntry {
+    formatVersion: number;
+    toolVersion: string;
+    url: string;
+    status: number;
+    headers: { [name: string]: string };
+    validator: { etag?: string; lastModified?: string };
+    cachedAt: string;
+}
+
+/**
+ * Opens the asset cache in a directory, creating the directory if needed.
+ *
+ * @param cacheDir The cache directory, see `DEFAULT_CACHE_DIR`.
+ * @param localSiteUrl Optional. The URL of the local server when converting a build directory, see `openPageCache`.
+ * @returns {AssetCache} The asset cache.
+ */
+export function openAssetCache(cacheDir: string, localSiteUrl?: string): AssetCache {
+    const dir = path.resolve(cacheDir, 'assets');
+    fs.mkdirSync(dir, { recursive: true });
+    const entryPath = (url: string, extension: string) => path.join(dir, toCacheKey(url, localSiteUrl) + extension);
+    // Assets confirmed in this run are kept in memory, as every page loads the same stylesheets, scripts and fonts.
+    const confirmedAssets = new Map<string, CachedAsset>();
+    const stats = { reused: 0, stored: 0 };
+    
+    return {
+        dir,
+        stats,
+        lookup: url => {
+            const confirmedAsset = confirmedAssets.get(url);
+            if (confirmedAsset) {
+                return { asset: confirmedAsset, confirmed: true };
+            }
+            const metadataPath = entryPath(url, '.json');
+            const bodyPath = entryPath(url, '.body');
+            if (!fs.existsSync(metadataPath) || !fs.existsSync(bodyPath)) {
+                return undefined;
+            }
+            try {
+                const entry: AssetCacheEntry = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+                if (entry.formatVersion !== CACHE_FORMAT_VERSION || entry.toolVersion !== TOOL_VERSION) {
+                    return undefined;
+                }
+                const asset = { status: entry.status, headers: entry.headers, validator: entry.validator, body: fs.readFileSync(bodyPath) };
+                return { asset, confirmed: false };
+            } catch (e) {
+                console.warn(`[Cache] Ignoring unreadable cache entry for ${url}.`);
+                return undefined;
+            }
+        },
+        reuse: (url, asset) => {
+            confirmedAssets.set(url, asset);
+            stats.reused++;
+        },
+        store: (url, asset) => {
+            confirmedAssets.set(url, asset);
+            if (!asset.validator.etag && !asset.validator.lastModified) {
+                return;
+            }
+            const entry: AssetCacheEntry = {
+                formatVersion: CACHE_FORMAT_VERSION,
+                toolVersion: TOOL_VERSION,
+                url,
+                status: asset.status,
+                headers: asset.headers,
+                validator: asset.validator,
+                cachedAt: new Date().toISOString(),
+            };
+            try {
+                // The metadata is written last, so an interrupted write leaves no entry behind.
+                fs.writeFileSync(entryPath(url, '.body'), asset.body);
+                fs.writeFileSync(entryPath(url, '.json'), JSON.stringify(entry));
+                stats.stored++;
+            } catch (error) {
+                console.warn(`[Cache] Could not write the cache entry for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        },
+    };
+}
+
+/**
+ * The progress of the page extraction of one output, written to a checkpoint file as each page finishes, so that
+ * a run that was interrupted (e.g. by running out of memory or by a CI timeout) can be resumed without extracting
+ * the finished pages again.
+ */
+export interface PageCheckpoint {
+    /**
+     * The absolute path of the checkpoint file.
+     */
+    path: string;
+    /**
+     * Returns the details of a page finished by the interrupted run, with the anchor IDs of the current run,
+     * if it was extracted with the same processing options.
+     *
+     * @param sidebarItem The page to look up.
+     * @param fingerprint The options the page is extracted with, see `pageFingerprint`.
+     * @returns {PageDetails | undefined} The finished page, or undefined if the page has to be extracted.
+     */
+    lookup: (sidebarItem: SidebarItem, fingerprint: string) => PageDetails | undefined;
+    /**
+     * Appends a finished page to the checkpoint file. Failed pages are not written, so that a resumed run retries them.
+     *
+     * @param pageDetails The extracted page.
+     * @param fingerprint The options the page was extracted with, see `pageFingerprint`.
+     */
+    store: (pageDetails: PageDetails, fingerprint: string) => void;
+    /**
+     * Deletes the checkpoint file, once the output has been written.
+     */
+    remove: () => void;
+    /**
+     * The number of pages that were taken from the interrupted run, and the number of pages written so far.
+     */
+    stats: { resumed: number; written: number };
+}
+
+/**
+ * Returns the path of the checkpoint file of an output, next to the PDF file (e.g. "docs.pdf.checkpoint.jsonl").
+ *
+ * @param pdfPath The path of the PDF file.
+ * @returns {string} The path of the checkpoint file.
+ */
+export function getCheckpointPath(pdfPath: string): string {
+    return pdfPath + '.checkpoint.jsonl';
+}
+
+/**
+ * Opens the checkpoint file of an output. The file is in the JSON Lines format: a header line naming the start URL
+ * and the version of this package, followed by one line per finished page. Lines are only ever appended, so the file
+ * stays readable if the process is killed while writing; an incomplete last line is ignored.
+ *
+ * @param checkpointPath The path of the checkpoint file, see `getCheckpointPath`.
+ * @param docsUrl The start URL of the output. A checkpoint written for another start URL is not resumed.
+ * @param resume Whether to resume from an existing checkpoint file. Otherwise, the file is started anew.
+ * @param localSiteUrl Optional. The URL of the local server when converting a build directory, see `openPageCache`.
+ * @returns {PageCheckpoint} The checkpoint.
+ */
+export function openPageCheckpoint(checkpointPath: string, docsUrl: string, resume: boolean, localSiteUrl?: string): PageCheckpoint {
+    const filePath = path.resolve(checkpointPath);
+    // URLs point at the local server when converting a build directory, whose port changes in every run.
+    const toCheckpointUrl = (url: string, siteUrl = localSiteUrl) => siteUrl && url.startsWith(siteUrl) ? url.substring(siteUrl.length) : url;
+    const finishedPages = new Map<string, StoredPage>();
+    
+    if (resume && fs.existsSync(filePath)) {
+        const [header, ...lines] = fs.readFileSync(filePath, 'utf-8').split('\n').filter(it => it.trim() !== '');
+        let headerValues: { formatVersion?: number; toolVersion?: string; docsUrl?: string } = {};
+        try {
+            headerValues = JSON.parse(header);
+        } catch (e) {
+            // Handled below like a checkpoint of another format.
+        }
+        if (headerValues.formatVersion !== CACHE_FORMAT_VERSION || headerValues.toolVersion !== TOOL_VERSION || headerValues.docsUrl !== toCheckpointUrl(docsUrl)) {
+            console.warn(`[Checkpoint] The checkpoint file ${filePath} belongs to another run or version. Starting from scratch.`);
+        } else {
+            for (const line of lines) {
+                try {
+                    const storedPage: StoredPage = JSON.parse(line);
+                    finishedPages.set(toCheckpointUrl(storedPage.url, storedPage.siteUrl), storedPage);
+                } catch (e) {
+                    console.warn(`[Checkpoint] Ignoring an incomplete line of the checkpoint file ${filePath}.`);
+                }
+            }
+            console.log(`[Checkpoint] Resuming from ${filePath}: ${finishedPages.size} pages were already extracted.`);
+        }
+    } else if (resume) {
+        console.warn(`[Checkpoint] No checkpoint file found at ${filePath}. Starting from scratch.`);
+    }
+    
+    // Rewrite the file with the pages that are resumed, so it does not grow with every resumed run.
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, [
+        JSON.stringify({ formatVersion: CACHE_FORMAT_VERSION, toolVersion: TOOL_VERSION, docsUrl: toCheckpointUrl(docsUrl) }),
+        ...[...finishedPages.values()].map(it => JSON.stringify(it)),
+    ].join('\n') + '\n');
+    
+    const stats = { resumed: 0, written: 0 };
+    return {
+        path: filePath,
+        stats,
+        lookup: (sidebarItem, fingerprint) => {
+            const storedPage = finishedPages.get(toCheckpointUrl(sidebarItem.url));
+            if (!storedPage || storedPage.fingerprint !== fingerprint) {
+                return undefined;
+            }
+            stats.resumed++;
+            return restoreStoredPage(storedPage, sidebarItem, localSiteUrl);
+        },
+        store: (pageDetails, fingerprint) => {
+            if (pageDetails.error !== undefined) {
+                return;
+            }
+            fs.appendFileSync(filePath, JSON.stringify(toStoredPage(pageDetails, fingerprint, localSiteUrl)) + '\n');
+            stats.written++;
+        },
+        remove: () => {
+            fs.rmSync(filePath, { force: true });
+        },
+    };
+}
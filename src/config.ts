@@ -0,0 +1,399 @@
+import path from "node:path";
+import * as fs from "node:fs";
+import {pathToFileURL} from "node:url";
+import {PdfGenerationOptions} from "./converter";
+
+/**
+ * The file names looked up, in order, when no config file is given explicitly.
+ */
+export const CONFIG_FILE_NAMES = [
+    'docs-to-pdf.config.ts',
+    'docs-to-pdf.config.js',
+    'docs-to-pdf.config.cjs',
+    'docs-to-pdf.config.mjs',
+    'docs-to-pdf.config.json',
+];
+
+/**
+ * The options a config file or one of its outputs can set. Every `PdfGenerationOptions` field is optional here,
+ * as the missing ones fall back to the top level of the config file, the command line or the defaults.
+ */
+export type ConfigOptions = Partial<PdfGenerationOptions>;
+
+/**
+ * The content of a `docs-to-pdf.config.{js,json,ts}` file.
+ *
+ * @example
+ * module.exports = {
+ *     docsUrl: 'http://localhost:3000/docs/intro',
+ *     paperFormat: 'Letter',
+ *     removeSelectors: ['.feedback-widget'],
+ *     outputs: {
+ *         guide: { pdfPath: 'output/guide.pdf' },
+ *         api: { docsUrl: 'http://localhost:3000/docs/api', pdfPath: 'output/api.pdf', landscape: true },
+ *     },
+ * };
+ */
+export interface DocsToPdfConfig extends ConfigOptions {
+    /**
+     * Optional. Named outputs, each producing its own PDF. The options of an output override the
+     * top-level options of the config file. Without outputs, the config file describes a single PDF.
+     */
+    outputs?: { [name: string]: ConfigOptions };
+}
+
+/**
+ * A single conversion described by a config file, with its options merged from the top level and the output.
+ */
+export interface ConfigOutput {
+    /**
+     * The name of the output in the config file, or an empty string if the config file defines no outputs.
+     */
+    name: string;
+    /**
+     * The merged options of this output.
+     */
+    options: ConfigOptions;
+}
+
+/**
+ * The expected type of every option that can be set in a config file.
+ */
+const OPTION_TYPES: { [key in keyof PdfGenerationOptions]-?: 'string' | 'number' | 'boolean' | 'string[]' | 'object' } = {
+    docsUrl: 'string',
+    pdfPath: 'string',
+    pdfCoverImage: 'string',
+    pdfMarginMm: 'number',
+    paperFormat: 'string',
+    landscape: 'boolean',
+    pageConcurrency: 'number',
+    outline: 'boolean',
+    outlineHeadings: 'boolean',
+    tocPageNumbers: 'boolean',
+    numbering: 'boolean',
+    pageRetries: 'number',
+    pageRetryDelayMs: 'number',
+    strict: 'boolean',
+    versions: 'string[]',
+    locales: 'string[]',
+    tocTitle: 'string',
+    sidebarUrls: 'string[]',
+    allSidebars: 'boolean',
+    removeSelectors: 'string[]',
+    keepSelectors: 'string[]',
+    include: 'string[]',
+    exclude: 'string[]',
+    categories: 'string[]',
+    excludeCategories: 'string[]',
+    css: 'string[]',
+    presets: 'string[]',
+    headerTemplate: 'string',
+    footerTemplate: 'string',
+    hideHeaderFooterOnCoverAndToc: 'boolean',
+    documentTitle: 'string',
+    cover: 'boolean',
+    coverTemplate: 'string',
+    coverSubtitle: 'string',
+    coverLogo: 'string',
+    coverOrganization: 'string',
+    coverLegalNotice: 'string',
+    author: 'string',
+    subject: 'string',
+    keywords: 'string[]',
+    creator: 'string',
+    language: 'string',
+    tabs: 'string',
+    renderTimeoutMs: 'number',
+    cache: 'boolean',
+    cacheDir: 'string',
+    resume: 'boolean',
+    chunked: 'boolean',
+    chunkConcurrency: 'number',
+    buildDir: 'string',
+    baseUrl: 'string',
+    httpHeaders: 'object',
+    basicAuth: 'object',
+    cookieJar: 'string',
+    loginScript: 'string',
+    executablePath: 'string',
+    browserWSEndpoint: 'string',
+    browserURL: 'string',
+    browserArgs: 'string[]',
+    secureBrowser: 'boolean',
+    hooks: 'object',
+};
+
+/**
+ * Looks for a config file in a directory, trying the names in `CONFIG_FILE_NAMES` in order.
+ *
+ * @param directory The directory to search, typically the current working directory.
+ * @returns {string | undefined} The absolute path of the first config file found, or undefined if there is none.
+ */
+export function findConfigFile(directory: string): string | undefined {
+    for (const fileName of CONFIG_FILE_NAMES) {
+        const candidate = path.resolve(directory, fileName);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Loads and validates a config file.
+ *
+ * - `.json` files are parsed as JSON.
+ * - `.js` and `.cjs` files are loaded with `require`; `.mjs` files (and `.js` files that are ES modules)
+ *   are loaded with `import()`. Both `module.exports` and `export default` are supported.
+ * - `.ts` files are transpiled with the `typescript` package, which must be installed in that case.
+ *
+ * Relative file paths in the config (`pdfPath`, `pdfCoverImage`, `coverLogo`, `css`, `buildDir` and template files) are resolved against the
+ * directory of the config file, so the file works regardless of where the command is run from.
+ *
+ * @param configPath The path of the config file.
+ * @returns {Promise<DocsToPdfConfig>} A Promise that resolves to the validated config.
+ * @throws {Error} If the file cannot be found, loaded or parsed, or if its content is invalid.
+ */
+export async function loadConfigFile(configPath: string): Promise<DocsToPdfConfig> {
+    const absolutePath = path.resolve(configPath);
+    if (!fs.existsSync(absolutePath)) {
+        throw new Error(`Config file not found: ${absolutePath}`);
+    }
+
+    let content: unknown;
+    try {
+        content = await readConfigModule(absolutePath);
+    } catch (error) {
+        throw new Error(`Could not load config file "${absolutePath}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const config = validateConfig(content, absolutePath);
+    const configDir = path.dirname(absolutePath);
+    resolveConfigPaths(config, configDir);
+    for (const output of Object.values(config.outputs || {})) {
+        resolveConfigPaths(output, configDir);
+    }
+    return config;
+}
+
+/**
+ * Loads a script module given by the user, e.g. a login script, the same way as a config file:
+ * .js, .cjs, .mjs and .ts files are supported.
+ *
+ * @param scriptPath The path of the script.
+ * @returns {Promise<unknown>} A Promise that resolves to the default export of the script, or to its exports.
+ * @throws {Error} If the script does not exist or cannot be loaded.
+ */
+export async function loadScriptModule(scriptPath: string): Promise<unknown> {
+    const absolutePath = path.resolve(scriptPath);
+    if (!fs.existsSync(absolutePath)) {
+        throw new Error(`Script not found: ${absolutePath}`);
+    }
+    try {
+        return await readConfigModule(absolutePath);
+    } catch (error) {
+        throw new Error(`Could not load script "${absolutePath}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Helper function: Reads the raw content of a config file according to its extension.
+ *
+ * @param absolutePath The absolute path of the config file.
+ * @returns {Promise<unknown>} A Promise that resolves to the exported (not yet validated) value.
+ */
+async function readConfigModule(absolutePath: string): Promise<unknown> {
+    const extension = path.extname(absolutePath).toLowerCase();
+    let exported: unknown;
+
+    if (extension === '.json') {
+        exported = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+    } else if (extension === '.ts') {
+        let typescript: typeof import('typescript');
+        try {
+            typescript = require('typescript');
+        } catch (e) {
+            throw new Error(`Loading a TypeScript config file requires the "typescript" package. Install it, or use a .js or .json config file instead.`);
+        }
+        const { outputText } = typescript.transpileModule(fs.readFileSync(absolutePath, 'utf-8'), {
+            compilerOptions: { module: typescript.ModuleKind.CommonJS, target: typescript.ScriptTarget.ES2021, esModuleInterop: true },
+            fileName: absolutePath,
+        });
+        // The transpiled module is written next to the config file, so its relative imports and packages resolve alike.
+        const transpiledPath = path.join(path.dirname(absolutePath), `.${path.basename(absolutePath, extension)}.${process.pid}.cjs`);
+        fs.writeFileSync(transpiledPath, outputText);
+        try {
+            exported = require(transpiledPath);
+        } finally {
+            delete require.cache[transpiledPath];
+            fs.rmSync(transpiledPath, { force: true });
+        }
+    } else if (extension === '.mjs') {
+        exported = await importModule(pathToFileURL(absolutePath).href);
+    } else {
+        try {
+            exported = require(absolutePath);
+        } catch (error) {
+            // ES module syntax in a .js file (e.g. in a "type": "module" package) can only be imported.
+            if ((error as NodeJS.ErrnoException)?.code !== 'ERR_REQUIRE_ESM') {
+                throw error;
+            }
+            exported = await importModule(pathToFileURL(absolutePath).href);
+        }
+    }
+
+    return exported && typeof exported === 'object' && 'default' in exported ? exported.default : exported;
+}
+
+/**
+ * Helper function: Imports an ES module. The `import()` expression is created at runtime,
+ * as TypeScript would otherwise compile it to `require()` for this CommonJS package.
+ */
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<unknown>;
+
+/**
+ * Tells whether a name is the name of an option of `PdfGenerationOptions`, e.g. to map command-line options to them.
+ *
+ * @param name The name to check, e.g. "pdfMarginMm".
+ * @returns {boolean} Whether the name is an option name.
+ */
+export function isOptionName(name: string): name is keyof PdfGenerationOptions {
+    return Object.prototype.hasOwnProperty.call(OPTION_TYPES, name);
+}
+
+/**
+ * Validates the content of a config file: the top level and every output may only contain known options
+ * with values of the expected type.
+ *
+ * @param content The value exported by the config file.
+ * @param source The path of the config file, used in error messages.
+ * @returns {DocsToPdfConfig} The config, typed.
+ * @throws {Error} With a message listing every problem found, e.g. `outputs.api.paperFormat: expected a string`.
+ */
+export function validateConfig(content: unknown, source: string): DocsToPdfConfig {
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+        throw new Error(`Invalid config file "${source}": expected an object with options, got ${Array.isArray(content) ? 'an array' : typeof content}.`);
+    }
+
+    const problems: string[] = [];
+    const config = content as DocsToPdfConfig;
+    const validateOptions = (options: object, prefix: string) => {
+        for (const [key, value] of Object.entries(options)) {
+            const optionPath = prefix + key;
+            if (prefix === '' && key === 'outputs') {
+                continue;
+            }
+            const expectedType = OPTION_TYPES[key];
+            if (!expectedType) {
+                const suggestion = Object.keys(OPTION_TYPES).find(it => it.toLowerCase() === key.toLowerCase().replace(/[-_]/g, ''));
+                problems.push(`${optionPath}: unknown option${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+                continue;
+            }
+            if (value === undefined) {
+                continue;
+            }
+            const valid = expectedType === 'string[]'
+                ? Array.isArray(value) && value.every(it => typeof it === 'string')
+                : expectedType === 'object'
+                    ? typeof value === 'object' && value !== null && !Array.isArray(value)
+                    : typeof value === expectedType && !(expectedType === 'number' && isNaN(value as number));
+            if (!valid) {
+                const article = expectedType === 'object' ? 'an' : 'a';
+                problems.push(`${optionPath}: expected ${expectedType === 'string[]' ? 'an array of strings' : `${article} ${expectedType}`}, got ${JSON.stringify(value)}`);
+            }
+        }
+    };
+
+    validateOptions(config, '');
+    if (config.outputs !== undefined) {
+        if (!config.outputs || typeof config.outputs !== 'object' || Array.isArray(config.outputs)) {
+            problems.push(`outputs: expected an object mapping output names to options`);
+        } else {
+            for (const [name, output] of Object.entries(config.outputs)) {
+                if (!output || typeof output !== 'object' || Array.isArray(output)) {
+                    problems.push(`outputs.${name}: expected an object with options`);
+                } else {
+                    validateOptions(output, `outputs.${name}.`);
+                }
+            }
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid config file "${source}":\n${problems.map(it => `  - ${it}`).join('\n')}`);
+    }
+    return config;
+}
+
+/**
+ * Helper function: Resolves the relative local file paths of a set of options against the config file's directory.
+ * URLs and absolute paths are kept as they are.
+ */
+function resolveConfigPaths(options: ConfigOptions, configDir: string): void {
+    const resolveLocalPath = (value: string) => {
+        if (/^(https?|file):/.test(value) || value.startsWith('classpath:') || path.isAbsolute(value)) {
+            return value;
+        }
+        return path.resolve(configDir, value);
+    };
+    if (options.pdfPath) {
+        options.pdfPath = resolveLocalPath(options.pdfPath);
+    }
+    if (options.pdfCoverImage) {
+        options.pdfCoverImage = resolveLocalPath(options.pdfCoverImage);
+    }
+    for (const key of ['coverLogo', 'headerTemplate', 'footerTemplate', 'coverTemplate'] as const) {
+        // Templates are resolved only if they name a file, not if they are inline HTML.
+        if (options[key] && !options[key].trim().startsWith('<') && /\.(html?|svg|png|jpe?g|gif|webp)$/i.test(options[key])) {
+            options[key] = resolveLocalPath(options[key]);
+        }
+    }
+    if (options.buildDir) {
+        options.buildDir = resolveLocalPath(options.buildDir);
+    }
+    if (options.cacheDir) {
+        options.cacheDir = resolveLocalPath(options.cacheDir);
+    }
+    if (options.cookieJar) {
+        options.cookieJar = resolveLocalPath(options.cookieJar);
+    }
+    if (options.loginScript) {
+        options.loginScript = resolveLocalPath(options.loginScript);
+    }
+    if (options.executablePath && /[\\/]/.test(options.executablePath)) {
+        options.executablePath = resolveLocalPath(options.executablePath);
+    }
+    if (options.css) {
+        options.css = options.css.map(resolveLocalPath);
+    }
+}
+
+/**
+ * Expands a config file into the conversions it describes: one per named output, or a single one
+ * if the config defines no outputs. The options of each output override the top-level options.
+ *
+ * @param config The loaded config.
+ * @param selectedNames Optional. The names of the outputs to run; all outputs are run if omitted.
+ * @returns {ConfigOutput[]} The conversions to run, in the order they are defined in the config file.
+ * @throws {Error} If a selected output is not defined in the config.
+ */
+export function resolveConfigOutputs(config: DocsToPdfConfig, selectedNames?: string[]): ConfigOutput[] {
+    const { outputs, ...baseOptions } = config;
+    const outputNames = Object.keys(outputs || {});
+
+    if (outputNames.length === 0) {
+        if (selectedNames?.length) {
+            throw new Error(`The config file defines no outputs, but outputs were selected: ${selectedNames.join(', ')}`);
+        }
+        return [{ name: '', options: baseOptions }];
+    }
+
+    for (const name of selectedNames || []) {
+        if (!outputNames.includes(name)) {
+            throw new Error(`Output "${name}" is not defined in the config file. Available outputs: ${outputNames.join(', ')}`);
+        }
+    }
+    return outputNames
+        .filter(name => !selectedNames?.length || selectedNames.includes(name))
+        .map(name => ({ name, options: { ...baseOptions, ...outputs[name] } }));
+}
@@ -0,0 +1,2368 @@
+import {Browser, Page, PDFOptions} from 'puppeteer';
+import {PDFDocument} from 'pdf-lib';
+import {
+    absolutizeLinks,
+    applyPrintMarkers,
+    expandDetails,
+    expandTabs,
+    convertInteractiveContent,
+    convertDocCardLists,
+    numberHeadings,
+    numberCrossReferences,
+    waitForRenderedContent,
+    expandDocusaurusSidebar,
+    extractDocusaurusSidebarItems,
+    extractHeadings,
+    extractNavbarDropdowns,
+    extractNavbarLinks,
+    getDocumentLanguage,
+    getSidebarTitle,
+    linkAnchorsAcrossChunks,
+    extractSiteMetadata,
+    fetchPageHeaderValidators,
+    fetchSitemapLastModified,
+    setDocumentLanguage,
+    getElementOuterHtml,
+    namespaceElementIds,
+    removeElements, removeLazyLoading,
+    replaceBodyInnerHtml,
+    replaceElementOuterHtml,
+    rewriteLinks,
+    updateElementId
+} from './docusaurus';
+import {
+    ConversionResult,
+    CoverValues,
+    DocsVariant,
+    HeaderFooterTokens,
+    PageDetails,
+    PaperFormat,
+    PdfOutputResult,
+    PrintPreset,
+    BasicAuthCredentials,
+    PageAuthentication,
+    BrowserOptions,
+    SidebarFilter,
+    resolvePaperFormat,
+    SidebarItem,
+    TabsMode
+} from "./type";
+import {
+    generateAnchorLinksHtml,
+    generateBlankPagesHtml,
+    generateCoverHtml,
+    generateTemplatedCoverHtml,
+    DEFAULT_COVER_TEMPLATE,
+    generateFailedPageHtml,
+    generatePartTitleHtml,
+    generateSectionDividerHtml,
+    generateTocHtml,
+    getLanguageDirection,
+    fillHeaderFooterTemplate,
+    formatBuildDate,
+    generatePrintPresetCss,
+    PRINT_MARKER_CSS,
+    PRINT_PRESETS,
+    getLocalizedTocTitle,
+    DEFAULT_FOOTER_TEMPLATE,
+    DEFAULT_HEADER_TEMPLATE
+} from "./html";
+import {closeBrowser, getBrowserContext, launchBrowser, loadCookieJar, openPage, requestForImage, useAssetCache} from "./browser";
+import {addPdfOutline, buildOutline, loadPdfDocument, mergePdfFiles, overlayPdfPages, PdfOverlay, readAnchorPageNumbers, setPdfMetadata} from "./pdf";
+import path from "node:path";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import {fileURLToPath} from "node:url";
+import {startStaticSiteServer, StaticSiteServer, toLocalSiteUrl} from "./server";
+import {loadScriptModule} from "./config";
+import {AssetCache, DEFAULT_CACHE_DIR, getCheckpointPath, openAssetCache, openPageCache, openPageCheckpoint, PageCache, PageCheckpoint, pageFingerprint} from "./cache";
+
+/**
+ * Options controlling how the content of each documentation page is prepared before it is extracted.
+ */
+export interface PageProcessingOptions {
+    /**
+     * Which panels of Docusaurus `<Tabs>` to keep, see `TabsMode`. Defaults to 'all'.
+     */
+    tabs?: TabsMode;
+    /**
+     * The maximum time to wait for client-rendered content (Mermaid diagrams, live code previews, MathJax,
+     * images and fonts) of a page to finish rendering, in milliseconds. Defaults to 15000.
+     */
+    renderTimeoutMs?: number;
+    /**
+     * The authentication applied to every page, see `openPage`.
+     */
+    auth?: PageAuthentication;
+    /**
+     * Optional. The cache that unchanged pages are taken from instead of being rendered again,
+     * and that freshly extracted pages are stored in, see `openPageCache`.
+     */
+    cache?: PageCache;
+    /**
+     * Optional. The checkpoint that the pages finished by an interrupted run are taken from,
+     * and that every finished page is written to, see `openPageCheckpoint`.
+     */
+    checkpoint?: PageCheckpoint;
+}
+
+/**
+ * Builds details for multiple Docusaurus documentation pages concurrently.
+ * This function orchestrates a concurrency pool to efficiently visit, process,
+ * and extract HTML content from each page, ensuring the final results are
+ * ordered according to the original sidebar structure.
+ *
+ * It includes nested helper functions for flattening the sidebar and processing
+ * individual pages, keeping all related logic self-contained.
+ *
+ * @param browser The Puppeteer `Browser` instance from which new pages (tabs) will be created.
+ * @param sidebarItems A nested array of `SidebarItem` objects representing the
+ * hierarchical structure of the Docusaurus documentation.
+ * @param maxConcurrency The maximum number of browser pages (workers) to open and
+ * process simultaneously. A higher number might speed up processing but could
+ * increase resource consumption. (e.g., 5-10 for stability; up to CPU core count for max throughput).
+ * @param maxRetries The number of times a page is retried after a failed attempt before it is given up.
+ * @param retryDelayMs The delay before the first retry, in milliseconds. The delay doubles with every
+ * further retry (exponential backoff).
+ * @param onPageProcessed Optional. A callback invoked with each page's `PageDetails` as soon as the page
+ * has been processed (successfully or not), e.g. to report progress.
+ * @param pageProcessingOptions Optional. How the content of each page is prepared before it is extracted.
+ * @returns {Promise<PageDetails[]>} A Promise that resolves to an array of `PageDetails` objects.
+ * Each object contains the extracted HTML content and metadata
+ * for a documentation page, ordered as per the `sidebarItems` input.
+ * Pages that still fail after all retries carry an `error` and a placeholder page as their HTML.
+ */
+export async function buildPageDetailsParallel(
+    browser: Browser,
+    sidebarItems: SidebarItem[],
+    maxConcurrency: number,
+    maxRetries: number,
+    retryDelayMs: number,
+    onPageProcessed?: (pageDetails: PageDetails) => void | Promise<void>,
+    pageProcessingOptions: PageProcessingOptions = {}
+): Promise<PageDetails[]> {
+    
+    /**
+     * Helper function: Recursively flattens a nested array of `SidebarItem` objects into a single-level array.
+     * It identifies actual documentation pages (items with valid URLs that are not just placeholders)
+     * and adds them to the flattened list, regardless of whether they have children categories or not.
+     * A category's own page (a linked doc or a generated index) comes before the pages of its children.
+     *
+     * @param {SidebarItem[]} items The current level of `SidebarItem` objects to traverse.
+     * @param {SidebarItem[]} flattenedList The accumulator array where flattened page items are pushed.
+     * @returns {SidebarItem[]} The flattened array of `SidebarItem` objects, containing only actual page entries.
+     */
+    function extractPages(items: SidebarItem[], flattenedList: SidebarItem[]): SidebarItem[] {
+        for (const item of items) {
+            if (hasOwnPage(item)) {
+                flattenedList.push({ ...item });
+            }
+            
+            if (item.children && item.children.length > 0) {
+                extractPages(item.children, flattenedList);
+            }
+        }
+        return flattenedList;
+    }
+    
+    /**
+     * Helper function: Processes a single Docusaurus page to extract its main content HTML.
+     * This function creates a new Puppeteer page (tab) for each task. It navigates to the page,
+     * waits for essential elements, expands collapsible sections, updates the main content element's ID,
+     * and then extracts its outer HTML.
+     *
+     * @param browser The Puppeteer `Browser` instance used to create new pages.
+     * @param sidebarItem The `SidebarItem` object containing the page's metadata (title, ID, URL).
+     * @param workerContext An object providing context about the worker processing this page,
+     * including its unique `workerId` for logging.
+     * @returns {Promise<PageDetails>} A Promise that resolves to a `PageDetails` object,
+     * including the extracted HTML content.
+     * @throws {Error} If the page cannot be loaded or its content cannot be extracted.
+     */
+    async function processSinglePage(browser: Browser, sidebarItem: SidebarItem, workerContext: { workerId: number }): Promise<PageDetails> {
+        const page: Page = await openPage(browser, pageProcessingOptions.auth); // Create a new browser page (tab) for this task
+        const { workerId } = workerContext; // Destructure workerId for consistent logging
+        try {
+            // Log for starting process for THIS specific page
+            console.log(`[Worker ${workerId}] Processing page "${sidebarItem.title}" (URL: ${sidebarItem.url})...`);
+            
+            // Navigate to the page. Wait until network is idle (no more than 0 connections for 500ms).
+            // Set a timeout to prevent indefinite waiting if the page fails to load.
+            await page.goto(sidebarItem.url, { waitUntil: 'networkidle0', timeout: 60000 });
+            
+            // Wait for the main Docusaurus content container to be present in the DOM.
+            // This ensures the primary content area is rendered before proceeding.
+            // Note: The selectors target specific Docusaurus theme layout components: the Markdown content of a doc page,
+            // or the whole generated index page of a sidebar category (title, description and card list).
+            const docContentSelector = 'div[class^="docItemContainer"]>article>div[class*="theme-doc-markdown"]';
+            const generatedIndexSelector = 'div[class*="generatedIndexPage"]';
+            const contentElement = await page.waitForSelector(`${docContentSelector}, ${generatedIndexSelector}`, { timeout: 60000 });
+            const isDocPage = await contentElement!.evaluate((element, selector) => element.matches(selector), docContentSelector);
+            const contentSelector = isDocPage ? docContentSelector : generatedIndexSelector;
+            console.log(`[Worker ${workerId}] Page "${sidebarItem.title}" loaded and main content selector found${isDocPage ? '' : ' (generated index page)'}.`);
+            if (!isDocPage) {
+                // Unlike on doc pages, the breadcrumbs, version badges and pagination are part of the generated index content.
+                await page.evaluate(removeElements, [
+                    '.theme-doc-version-banner',
+                    '.theme-doc-version-badge',
+                    'nav.theme-doc-breadcrumbs',
+                    'nav.pagination-nav',
+                ].map(it => `${generatedIndexSelector} ${it}`));
+            }
+            
+            // Wait for client-rendered content (diagrams, live code, math, images, fonts), so it is not captured as
+            // raw source or blank boxes. A timeout is reported, but does not fail the page.
+            const readiness = await page.evaluate(waitForRenderedContent, contentSelector, pageProcessingOptions.renderTimeoutMs ?? 15000);
+            if (readiness.pending.length > 0) {
+                console.warn(`[Worker ${workerId}] Timed out waiting for ${readiness.pending.join(', ')} to render on "${sidebarItem.title}". Capturing the page as it is.`);
+            }
+            
+            // Drop the content marked with print:hide and show the content marked with print:only.
+            await page.evaluate(applyPrintMarkers, contentSelector);
+            
+            // Execute a script within the page context to expand any collapsible <details> elements.
+            // This ensures all hidden content is visible for extraction.
+            await page.evaluate(expandDetails);
+            console.log(`[Worker ${workerId}] Expanded collapsible details for "${sidebarItem.title}".`);
+            
+            // Show the tab panels that are not selected as well (or select the first tab), so no variant is left out.
+            await page.evaluate(expandTabs, pageProcessingOptions.tabs || 'all');
+            
+            // Freeze interactive content (canvases, editors, form fields) in its current, rendered state.
+            await page.evaluate(convertInteractiveContent, contentSelector);
+            
+            // Turn the card grids of category pages (`<DocCardList />`) into a list, which prints far more compactly.
+            await page.evaluate(convertDocCardLists, contentSelector);
+            
+            // Update the main Docusaurus content element's ID to a unique, generated ID.
+            // This is crucial for creating correct internal anchor links in the merged PDF.
+            // The selector must match the one used for `waitForSelector` above.
+            await page.evaluate(updateElementId, contentSelector, sidebarItem.id);
+            console.log(`[Worker ${workerId}] Element ID updated to "${sidebarItem.id}" for "${sidebarItem.title}".`);
+            
+            // Resolve relative links against this page's URL while it is still known, and prefix all IDs
+            // inside the content with the page ID so headings of different pages don't collide once merged.
+            await page.evaluate(absolutizeLinks, '#' + sidebarItem.id);
+            await page.evaluate(namespaceElementIds, '#' + sidebarItem.id, sidebarItem.id);
+            
+            // Prefix the page title and headings with their section numbers, see `numberSidebarItems`.
+            const numberedHeadings = sidebarItem.number
+                ? await page.evaluate(numberHeadings, '#' + sidebarItem.id, sidebarItem.number, sidebarItem.children.length === 0)
+                : undefined;
+            
+            // Get the outer HTML of the content container using its new unique ID.
+            const html = await page.evaluate(getElementOuterHtml, '#' + sidebarItem.id);
+            
+            // Collect the h2/h3 headings, which can be added to the PDF outline below the page's bookmark.
+            const headings = await page.evaluate(extractHeadings, '#' + sidebarItem.id, ['h2', 'h3']);
+            
+            // Log for successful completion of THIS specific page
+            console.log(`[Worker ${workerId}] Successfully processed page "${sidebarItem.title}".`);
+            
+            return {
+                ...sidebarItem, // Include original sidebar item metadata
+                html: html, // Add the extracted HTML content
+                headings: headings,
+                ...(numberedHeadings ? { numberedHeadings } : {}),
+                ...(readiness.pending.length > 0 ? { renderTimeouts: readiness.pending } : {}),
+            };
+        } catch (error) {
+            // Log clear error for THIS specific page, including URL and worker ID
+            console.error(`[Worker ${workerId}] ERROR processing page "${sidebarItem.title}" (URL: ${sidebarItem.url}): ${error instanceof Error ? error.message : String(error)}`);
+            throw error;
+        } finally {
+            // Crucial: Always close the page after its task is done to release browser resources.
+            await page.close();
+            // No need for a "page closed" log for every single page, it adds too much noise
+        }
+    }
+    
+    /**
+     * Helper function: Processes a single page, retrying failed attempts with exponential backoff.
+     * If the page still fails after all retries, a placeholder page naming the missing document is
+     * returned instead, so the failure is visible in the PDF rather than silently dropping the chapter.
+     *
+     * @param browser The Puppeteer `Browser` instance used to create new pages.
+     * @param sidebarItem The `SidebarItem` object containing the page's metadata (title, ID, URL).
+     * @param workerContext An object providing context about the worker processing this page.
+     * @returns {Promise<PageDetails>} A Promise that resolves to the extracted `PageDetails`, or to a
+     * placeholder `PageDetails` with its `error` set if all attempts failed.
+     */
+    async function processPageWithRetries(browser: Browser, sidebarItem: SidebarItem, workerContext: { workerId: number }): Promise<PageDetails> {
+        const { workerId } = workerContext;
+        let lastError: unknown;
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (attempt > 0) {
+                const delayMs = retryDelayMs * Math.pow(2, attempt - 1);
+                console.warn(`[Worker ${workerId}] Retrying page "${sidebarItem.title}" in ${delayMs}ms (retry ${attempt}/${maxRetries})...`);
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+            try {
+                return await processSinglePage(browser, sidebarItem, workerContext);
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        
+        const errorMessage = lastError instanceof Error ? lastError.message : String(lastError);
+        console.error(`[Worker ${workerId}] Giving up on page "${sidebarItem.title}" (URL: ${sidebarItem.url}) after ${maxRetries + 1} attempts.`);
+        return {
+            ...sidebarItem, // Return original metadata even on failure
+            html: generateFailedPageHtml(sidebarItem, errorMessage), // A visible placeholder keeps the anchor and names the missing page
+            headings: [],
+            error: errorMessage,
+        };
+    }
+    
+    // --- Main `buildPageDetailsParallel` Logic ---
+    
+    // Flatten the hierarchical sidebar items into a single list of pages to process.
+    const pagesToProcess = extractPages(sidebarItems, []);
+    console.log(`[Page Fetcher] Extracted ${pagesToProcess.length} documentation pages to process.`);
+    
+    const totalPages = pagesToProcess.length;
+    console.log(`[Page Fetcher] Starting to fetch content for ${totalPages} pages using ${maxConcurrency} concurrent workers.`);
+    
+    // Pre-allocate an array to store results in the correct order.
+    // This ensures the final output array maintains the original sequence of pages from `pagesToProcess`.
+    const orderedPageDetails: PageDetails[] = new Array(totalPages);
+    let currentIndex = 0; // Tracks the next page index to be assigned to a worker
+    
+    // Create `maxConcurrency` number of "worker promises".
+    // Each worker promise will continuously pick up tasks until all pages are processed.
+    const workerPromises = Array.from({ length: maxConcurrency }, async (_, workerId) => {
+        // The worker starts implicitly when its promise is created. No explicit "worker started" log here to reduce noise.
+        while (true) {
+            let pageIndexToProcess: number; // Stores the original index of the page to be processed
+            let pageSummaryToProcess: SidebarItem | undefined;
+            
+            // Atomically get the next page index to process.
+            // `currentIndex++` is safe in this concurrent context for primitive types.
+            if (currentIndex < totalPages) {
+                pageIndexToProcess = currentIndex;
+                pageSummaryToProcess = pagesToProcess[pageIndexToProcess];
+                currentIndex++; // Increment for the next worker to pick up
+            } else {
+                // All pages have been assigned. This worker has completed all its tasks and can stop.
+                console.log(`[Worker ${workerId}] All assigned tasks completed. Worker thread finishing.`);
+                break; // Exit the worker's processing loop
+            }
+            
+            // The detailed "Processing page..." log is inside `processSinglePage` to avoid redundant logging here.
+            
+            const fingerprint = pageFingerprint(pageSummaryToProcess, pageProcessingOptions);
+            const resumedPageDetail = pageProcessingOptions.checkpoint?.lookup(pageSummaryToProcess, fingerprint);
+            const cachedPageDetail = resumedPageDetail ? undefined : pageProcessingOptions.cache?.lookup(pageSummaryToProcess, fingerprint);
+            if (resumedPageDetail) {
+                console.log(`[Worker ${workerId}] Page "${pageSummaryToProcess.title}" was finished by the interrupted run, resuming with its content.`);
+            } else if (cachedPageDetail) {
+                console.log(`[Worker ${workerId}] Page "${pageSummaryToProcess.title}" is unchanged, reusing the cached content.`);
+            }
+            
+            // Process the page using the nested helper function, passing worker context.
+            const pageDetail = resumedPageDetail || cachedPageDetail || await processPageWithRetries(browser, pageSummaryToProcess, { workerId });
+            if (!resumedPageDetail && !cachedPageDetail) {
+                pageProcessingOptions.cache?.store(pageDetail, fingerprint);
+            }
+            if (!resumedPageDetail) {
+                // Record the progress right away, so it survives the process being killed.
+                pageProcessingOptions.checkpoint?.store(pageDetail, fingerprint);
+            }
+            // Store the result directly into its correct position in the pre-allocated ordered array.
+            orderedPageDetails[pageIndexToProcess] = pageDetail;
+            if (onPageProcessed) {
+                await onPageProcessed(pageDetail);
+            }
+            
+            // The "Successfully processed page..." log is inside `processSinglePage`.
+        }
+    });
+    
+    // Wait for all worker promises to complete.
+    // `Promise.all` will only resolve when every single worker has exhausted its tasks
+    // and all pages have been processed (or attempted to be processed).
+    await Promise.all(workerPromises);
+    
+    console.log(`[Page Fetcher] Finished fetching content for all ${totalPages} pages.`);
+    console.log(`[Page Fetcher] Final results collected for ${orderedPageDetails.length} pages.`);
+    return orderedPageDetails; // Return the correctly ordered array of page details
+}
+
+/**
+ * Resolves a given path string into an absolute URL that a browser can understand.
+ * This handles:
+ * - Direct HTTP/HTTPS URLs (e.g., 'https://example.com/image.jpg')
+ * - 'file:///'-prefixed URLs (returns as is)
+ * - 'classpath:'-prefixed paths (resolved against CWD/project root)
+ * - 'file:'-prefixed paths (resolved as local file system paths)
+ * - Relative or absolute file system paths (resolved to absolute 'file:///' URLs).
+ *
+ * @param inputPath The input path string provided by the user.
+ * @returns {string} An absolute URL (HTTP(S) or file:///) that Puppeteer can use.
+ * @throws {Error} If a 'classpath:' or 'file:' resource is not found or is invalid.
+ */
+export function resolveBrowserUrl(inputPath: string): string {
+    if (!inputPath) {
+        return '';
+    }
+    
+    // 1. Handle HTTP/HTTPS URLs directly
+    if (inputPath.startsWith('http://') || inputPath.startsWith('https://')) {
+        return inputPath;
+    }
+    
+    // 2. Handle 'file:///' URLs (already absolute for browser)
+    if (inputPath.startsWith('file:///')) {
+        // Ensure the file actually exists for 'file:///' URLs to prevent silent failures later
+        const localPath = decodeURIComponent(inputPath.substring(7)); // Remove 'file:///' and decode
+        if (!fs.existsSync(localPath)) {
+            throw new Error(`File not found: ${localPath} (from URL: ${inputPath})`);
+        }
+        return inputPath;
+    }
+    
+    let absoluteFilePath: string;
+    
+    // 3. Handle 'classpath:' and 'file:' prefixes (Node.js context)
+    if (inputPath.startsWith('classpath:')) {
+        // For 'classpath:', we typically resolve relative to the current working directory
+        // or a predefined 'resource' directory in a Node.js project.
+        // For simplicity here, we'll resolve relative to the process's current working directory.
+        const relativePath = inputPath.substring('classpath:'.length);
+        absoluteFilePath = path.resolve(process.cwd(), relativePath);
+        console.log(`[Path Resolver] Resolved classpath: "${inputPath}" to local path: "${absoluteFilePath}"`);
+    } else if (inputPath.startsWith('file:')) {
+        // For 'file:', resolve as an absolute file path.
+        // Handle potential Windows drive letters if inputPath is 'file:///C:/...'
+        absoluteFilePath = path.resolve(inputPath.substring('file:'.length));
+        console.log(`[Path Resolver] Resolved file: "${inputPath}" to local path: "${absoluteFilePath}"`);
+    } else {
+        // 4. Handle plain relative or absolute file paths
+        // Treat as a local file system path and resolve to absolute
+        absoluteFilePath = path.resolve(inputPath);
+        console.log(`[Path Resolver] Resolved relative/absolute path: "${inputPath}" to local path: "${absoluteFilePath}"`);
+    }
+    
+    // Ensure the resolved file actually exists
+    if (!fs.existsSync(absoluteFilePath)) {
+        throw new Error(`Local file not found at resolved path: ${absoluteFilePath} (from input: ${inputPath})`);
+    }
+    
+    // Convert the absolute file path to a 'file:///' URL for the browser
+    // Handle Windows paths where 'C:\' becomes 'file:///C:/'
+    const fileUrl = 'file:///' + absoluteFilePath.replace(/\\/g, '/'); // Replace backslashes for URL consistency
+    return fileUrl;
+}
+
+/**
+ * Applies a user stylesheet to the current document.
+ * Remote stylesheets are linked by URL; local files are read and inlined, so they work regardless of
+ * the origin of the documentation page.
+ *
+ * @param page The Puppeteer `Page` holding the merged document.
+ * @param stylesheet An http(s) URL, or a local file path (optionally prefixed with 'file:' or 'classpath:').
+ * @returns {Promise<void>} A Promise that resolves once the stylesheet has been added.
+ * @throws {Error} If a local stylesheet file does not exist.
+ */
+async function addStylesheet(page: Page, stylesheet: string): Promise<void> {
+    if (stylesheet.startsWith('http://') || stylesheet.startsWith('https://')) {
+        await page.addStyleTag({ url: stylesheet });
+        return;
+    }
+    const localPath = stylesheet.startsWith('file://')
+        ? fileURLToPath(stylesheet)
+        : path.resolve(stylesheet.replace(/^(classpath|file):/, ''));
+    if (!fs.existsSync(localPath)) {
+        throw new Error(`Stylesheet not found: ${localPath} (from input: ${stylesheet})`);
+    }
+    await page.addStyleTag({ content: fs.readFileSync(localPath, 'utf-8') });
+}
+
+/**
+ * Lifecycle hooks that are invoked during a conversion. All hooks are optional and may be asynchronous;
+ * the conversion waits for them before it continues.
+ */
+export interface ConversionHooks {
+    /**
+     * Called before a version/locale combination of the documentation is exported to its PDF file.
+     */
+    onOutputStart?: (variant: DocsVariant, pdfPath: string) => void | Promise<void>;
+    /**
+     * Called right after the browser has been launched, before any documentation page is opened, to sign in to a
+     * private documentation site, e.g. by filling in the login form of a single sign-on. The cookies set on the page
+     * apply to every page of the browser. Runs after `loginScript`, once per browser launch.
+     */
+    onLogin?: LoginScript;
+    /**
+     * Called once the sidebar structure of the document has been built, before any page is extracted.
+     */
+    onSidebarBuilt?: (sidebarItems: SidebarItem[]) => void | Promise<void>;
+    /**
+     * Called for each documentation page as soon as it has been processed. Failed pages have their `error` set.
+     */
+    onPageProcessed?: (pageDetails: PageDetails) => void | Promise<void>;
+    /**
+     * Called once the merged document has been prepared in the browser, right before it is printed.
+     * The Puppeteer `Page` can be used to adjust the document, e.g. to inject additional styles.
+     * In chunked mode (see `PdfGenerationOptions.chunked`), it is called for the front matter and for every chunk.
+     */
+    onBeforePdf?: (page: Page) => void | Promise<void>;
+    /**
+     * Called after a PDF file has been written.
+     */
+    onOutputWritten?: (output: PdfOutputResult) => void | Promise<void>;
+}
+
+/**
+ * A login script, see `PdfGenerationOptions.loginScript` and `ConversionHooks.onLogin`. It receives a fresh page
+ * (with the headers of `httpHeaders` and `basicAuth` applied) and the URL of the documentation to convert.
+ */
+export type LoginScript = (page: Page, context: { browser: Browser; docsUrl: string }) => void | Promise<void>;
+
+/**
+ * The options controlling which browser is used and how it authenticates to a private documentation site.
+ */
+export type BrowserSessionOptions = BrowserOptions & Pick<PdfGenerationOptions, 'httpHeaders' | 'basicAuth' | 'cookieJar' | 'loginScript' | 'hooks'>;
+
+/**
+ * Defines all configurable options for the PDF generation process.
+ * These options are typically passed via command-line arguments and control
+ * the source of documentation, output path, cover image, page margins,
+ * and the level of concurrent processing.
+ */
+export interface PdfGenerationOptions {
+    /**
+     * The base URL of the Docusaurus documentation to convert.
+     * Example: 'http://localhost:3000/docs/introduction'.
+     */
+    docsUrl: string;
+    /**
+     * The full file path where the generated PDF document will be saved.
+     * Example: 'output/my-docs.pdf'.
+     * The path can contain the `{version}` and `{locale}` placeholders, which are replaced
+     * per exported version/locale, e.g. 'output/docs-{version}-{locale}.pdf'.
+     */
+    pdfPath: string;
+    /**
+     * Optional. The URL or local file path to an image to be used as the PDF cover page.
+     * This can be an absolute URL (http/https), a relative or absolute file system path,
+     * or a path prefixed with 'file:///' or 'classpath:'.
+     * If provided, a dedicated cover page will be generated.
+     */
+    pdfCoverImage?: string; // Explicitly marked as optional
+    /**
+     * The size of the margins for all sides of the PDF pages, in millimeters (mm).
+     * For example, 20 indicates a 20mm margin on top, bottom, left, and right.
+     */
+    pdfMarginMm: number;
+    /**
+     * The paper format of the PDF pages. Either a named format (e.g. 'A4', 'Letter', 'A3', 'Legal')
+     * or custom dimensions such as '210x297mm' or '8.5x11in'.
+     * The same dimensions are used for the printed pages and for sizing the cover page.
+     */
+    paperFormat: string;
+    /**
+     * Whether the pages are printed in landscape orientation.
+     */
+    landscape: boolean;
+    /**
+     * The maximum number of browser pages (tabs) to use concurrently for fetching
+     * and processing individual documentation pages.
+     * Higher values can speed up content extraction but may increase memory and CPU consumption.
+     * A common balance for I/O-bound tasks is to set this to 1.5 to 2 times the number of CPU cores.
+     */
+    pageConcurrency: number;
+    /**
+     * Whether to add a PDF outline (bookmarks) built from the sidebar hierarchy,
+     * so the document can be navigated from the PDF reader's bookmarks pane.
+     */
+    outline: boolean;
+    /**
+     * Whether to add each page's h2/h3 headings to the PDF outline, nested below the page's bookmark.
+     * Only takes effect when `outline` is enabled.
+     */
+    outlineHeadings: boolean;
+    /**
+     * Whether to print page numbers with dot leaders in the table of contents.
+     * This requires a second render pass: the first pass determines on which page each
+     * sidebar item starts, the second pass prints the final document with the numbered TOC.
+     * If the numbered TOC moves the pages after it, a third pass prints it with the corrected page numbers.
+     */
+    tocPageNumbers: boolean;
+    /**
+     * Whether to number chapters and sections hierarchically (1, 1.2, 1.2.3). Sidebar items are numbered by their
+     * depth in the sidebar, and each page continues its number into its h2-h4 headings. The numbers are shown
+     * in the TOC, the headings, the PDF bookmarks and the text of cross-reference links.
+     */
+    numbering: boolean;
+    /**
+     * The number of times a documentation page is retried after a failed attempt
+     * (e.g. a navigation timeout) before it is given up.
+     */
+    pageRetries: number;
+    /**
+     * The delay before the first retry of a failed page, in milliseconds.
+     * The delay doubles with every further retry (exponential backoff).
+     */
+    pageRetryDelayMs: number;
+    /**
+     * Whether to fail with an error if any page could not be extracted after all retries. The error is thrown once
+     * all pages have been processed, before the PDF is generated, and lists the number of failed pages.
+     * Without strict mode, failed pages are replaced by a visible placeholder page in the PDF.
+     */
+    strict: boolean;
+    /**
+     * Optional. The documentation versions to export, as shown in the navbar version dropdown
+     * (e.g. ['2.x', 'Next']), or ['all'] to export every version found there.
+     * Each version (and locale) is exported to its own PDF file, see `pdfPath`.
+     */
+    versions?: string[];
+    /**
+     * Optional. The locales to export, as declared by `<html lang>` and listed in the navbar
+     * locale dropdown (e.g. ['en', 'zh-Hans']), or ['all'] to export every locale found there.
+     * Each locale (and version) is exported to its own PDF file, see `pdfPath`.
+     */
+    locales?: string[];
+    /**
+     * Optional. The title of the table of contents. Defaults to a title in the language of the documentation.
+     */
+    tocTitle?: string;
+    /**
+     * Optional. Additional documentation URLs whose sidebars are exported into the same document,
+     * e.g. the start pages of separate "API" and "Tutorials" sidebars.
+     * When more than one sidebar is exported, each becomes a top-level part with its own title page.
+     */
+    sidebarUrls?: string[];
+    /**
+     * Whether to discover every docs sidebar linked from the navbar and export them all into one document,
+     * each as a top-level part with its own title page.
+     */
+    allSidebars: boolean;
+    /**
+     * Optional. Additional CSS selectors of elements to remove from the documentation pages before printing,
+     * e.g. feedback widgets, "Edit this page" banners or cookie notices. The breadcrumbs, doc footer and pagination
+     * are removed by default. Content marked by its authors with the class `print:hide` is always removed.
+     */
+    removeSelectors?: string[];
+    /**
+     * Optional. CSS selectors of elements that are never removed, even if they match one of the default selectors
+     * or `removeSelectors`, e.g. 'nav.pagination-nav' to keep the previous/next links.
+     */
+    keepSelectors?: string[];
+    /**
+     * Optional. Glob patterns of the page paths to export, matched against the path of each sidebar link without its
+     * leading slash, e.g. 'docs/getting-started/**'. `*` matches within a path segment, `**` across segments.
+     * Pages that are not exported are linked to the live site instead. See `SidebarFilter`.
+     */
+    include?: string[];
+    /**
+     * Optional. Glob patterns of the page paths to leave out, e.g. '**\/internal/**'. Wins over `include`.
+     */
+    exclude?: string[];
+    /**
+     * Optional. Titles of the sidebar categories (or sidebars) to export, e.g. 'Getting Started'. Case-insensitive.
+     */
+    categories?: string[];
+    /**
+     * Optional. Titles of the sidebar categories (or sidebars) to leave out, e.g. 'Deprecated'. Case-insensitive.
+     */
+    excludeCategories?: string[];
+    /**
+     * Optional. Stylesheets applied to the merged document before printing, in order. Each entry is either an
+     * http(s) URL or a local file path (optionally prefixed with 'file:' or 'classpath:').
+     */
+    css?: string[];
+    /**
+     * Optional. Built-in print stylesheets, applied in order before the `css` stylesheets: 'compact', 'serif' or
+     * 'high-contrast', see `PrintPreset`. Any preset also wraps long code lines, repeats table headers on every page
+     * and avoids page breaks inside table rows, figures, diagrams and admonitions.
+     */
+    presets?: PrintPreset[];
+    /**
+     * Optional. The HTML template for the page header, given inline or as the path of an HTML file.
+     * Chrome fills in elements with the classes `date`, `title`, `url`, `pageNumber` and `totalPages`;
+     * in addition, the tokens `{docTitle}`, `{chapter}` (the top-level sidebar category of the page),
+     * `{version}` and `{buildDate}` are replaced. Defaults to an empty header.
+     */
+    headerTemplate?: string;
+    /**
+     * Optional. The HTML template for the page footer, see `headerTemplate`.
+     * Defaults to a centered "page / total pages" footer.
+     */
+    footerTemplate?: string;
+    /**
+     * Whether to leave out the header and footer on the cover and table of contents pages.
+     */
+    hideHeaderFooterOnCoverAndToc: boolean;
+    /**
+     * Optional. The title of the document, e.g. for the `{docTitle}` token of the header and footer templates
+     * and the generated cover page. Defaults to the title of the Docusaurus site.
+     */
+    documentTitle?: string;
+    /**
+     * Whether to generate a cover page with the document title, subtitle, logo, version, date, organization and
+     * legal notice, see `coverTemplate`. If `pdfCoverImage` is given as well, the image is shown on the generated cover.
+     * Without a generated cover, `pdfCoverImage` alone makes a cover page showing just the image.
+     */
+    cover: boolean;
+    /**
+     * Optional. A custom cover page template, given inline or as the path of an HTML file. Implies `cover`.
+     * Uses a Handlebars-style syntax (`{{title}}`, `{{{rawHtml}}}`, `{{#if logo}}...{{else}}...{{/if}}`) with the
+     * values `title`, `subtitle`, `logo`, `image`, `version`, `date`, `organization`, `legalNotice`,
+     * `pageWidth` and `pageHeight`. Defaults to the built-in layout.
+     */
+    coverTemplate?: string;
+    /**
+     * Optional. The subtitle of the generated cover page. Defaults to the site's tagline (the meta description of its home page).
+     */
+    coverSubtitle?: string;
+    /**
+     * Optional. The URL or local file path of the logo on the generated cover page. Defaults to the navbar logo.
+     */
+    coverLogo?: string;
+    /**
+     * Optional. The organization shown on the generated cover page.
+     */
+    coverOrganization?: string;
+    /**
+     * Optional. The legal notice shown on the generated cover page. Defaults to the site's footer copyright.
+     */
+    coverLegalNotice?: string;
+    /**
+     * Optional. The author written into the PDF metadata. Defaults to the site's `<meta name="author">` tag.
+     * The PDF title is `documentTitle`.
+     */
+    author?: string;
+    /**
+     * Optional. The subject written into the PDF metadata. Defaults to the site's tagline (the meta description of its home page).
+     */
+    subject?: string;
+    /**
+     * Optional. The keywords written into the PDF metadata. Defaults to the site's `<meta name="keywords">` tag.
+     */
+    keywords?: string[];
+    /**
+     * Optional. The creator application written into the PDF metadata. Defaults to "docusaurus-docs-to-pdf".
+     */
+    creator?: string;
+    /**
+     * Optional. The language of the document (e.g. 'en', 'ar'), written into the PDF metadata and set as the
+     * `<html lang>` of the merged document, which drives hyphenation and text direction. Defaults to the language
+     * declared by the documentation pages.
+     */
+    language?: string;
+    /**
+     * Optional. The output directory of `docusaurus build`. If set, the directory is served on an ephemeral
+     * localhost port for the duration of the conversion, so no running server is needed. `docsUrl` and
+     * `sidebarUrls` may then be given as paths of the site (e.g. "docs/intro"); URLs of the deployed site are
+     * mapped to the local server. Links to pages outside the export point at the deployed site, as detected
+     * from the canonical link of the home page.
+     */
+    buildDir?: string;
+    /**
+     * Optional. The `baseUrl` the site in `buildDir` was built with (e.g. "/my-docs/").
+     * Detected from the build output if omitted.
+     */
+    baseUrl?: string;
+    /**
+     * Which panels of Docusaurus `<Tabs>` to export: 'all' (every panel, labeled with its tab title) or 'first'.
+     */
+    tabs: TabsMode;
+    /**
+     * The maximum time to wait for the client-rendered content of a page (Mermaid diagrams, live code previews,
+     * MathJax, images and fonts) to finish rendering, in milliseconds. Pages that time out are captured as they are
+     * and reported, see `PdfOutputResult.timedOutPages`.
+     */
+    renderTimeoutMs: number;
+    /**
+     * Whether to cache the extracted pages on disk, so that later runs only render the pages that changed.
+     * A page is reused if its `<lastmod>` date in the sitemap, or else its `ETag` or `Last-Modified` header,
+     * is unchanged, see `openSitePageCache`.
+     */
+    cache: boolean;
+    /**
+     * Optional. The directory of the page cache. Defaults to "node_modules/.cache/docusaurus-docs-to-pdf".
+     */
+    cacheDir?: string;
+    /**
+     * Whether to resume an interrupted run. Every extracted page is written to a checkpoint file next to the PDF
+     * file (e.g. "docs.pdf.checkpoint.jsonl"), which is deleted once the PDF file has been written. When resuming,
+     * the pages found in the checkpoint file are not extracted again.
+     */
+    resume: boolean;
+    /**
+     * Whether to render the document in chunks, for sites too large to be printed from a single DOM: every top-level
+     * sidebar section (within each part, when several sidebars are exported) is printed from a browser page of its own
+     * and the PDF files are merged. Page numbers, bookmarks and internal links work across the chunks.
+     */
+    chunked: boolean;
+    /**
+     * The maximum number of chunks rendered at the same time when `chunked` is set. Every chunk is rendered in a
+     * browser page of its own, so this bounds the memory used by the browser. It does not bound the memory of the Node.js
+     * process, which holds the whole merged document while post-processing it.
+     */
+    chunkConcurrency: number;
+    /**
+     * Optional. HTTP headers sent with every request to the documentation site, e.g. `{ 'X-Api-Token': '...' }`
+     * for a site behind an authenticating proxy. Requests to other origins (CDNs, analytics) do not get them.
+     */
+    httpHeaders?: { [name: string]: string };
+    /**
+     * Optional. Credentials for HTTP basic authentication, sent to the documentation site only.
+     */
+    basicAuth?: BasicAuthCredentials;
+    /**
+     * Optional. The path of a cookie jar file (Netscape "cookies.txt" or JSON format, see `loadCookieJar`)
+     * whose cookies are loaded into the browser, e.g. the session cookies of a single sign-on.
+     */
+    cookieJar?: string;
+    /**
+     * Optional. The path of a login script (.js, .cjs, .mjs or .ts) run right after the browser has been launched.
+     * The script exports a `LoginScript` function, e.g. one that fills in the login form of a single sign-on.
+     */
+    loginScript?: string;
+    /**
+     * Optional. The path of a Chrome or Chromium executable to use instead of Puppeteer's bundled browser.
+     */
+    executablePath?: string;
+    /**
+     * Optional. The WebSocket URL of a running browser to connect to instead of launching one, see `BrowserOptions`.
+     */
+    browserWSEndpoint?: string;
+    /**
+     * Optional. The HTTP URL of the DevTools endpoint of a running browser to connect to, e.g. "http://127.0.0.1:9222".
+     */
+    browserURL?: string;
+    /**
+     * Optional. Additional command-line arguments for the launched browser.
+     */
+    browserArgs?: string[];
+    /**
+     * Whether to launch the browser without the default arguments that weaken its security
+     * (no sandbox, no same-origin policy, no site isolation), see `BrowserOptions.secureBrowser`.
+     */
+    secureBrowser: boolean;
+    /**
+     * Optional. Lifecycle hooks invoked during the conversion, see `ConversionHooks`.
+     */
+    hooks?: ConversionHooks;
+}
+
+/**
+ * The default values of all `PdfGenerationOptions` that are not required.
+ */
+export const DEFAULT_PDF_GENERATION_OPTIONS: Omit<PdfGenerationOptions, 'docsUrl' | 'pdfPath'> = {
+    pdfMarginMm: 10,
+    paperFormat: 'A4',
+    landscape: false,
+    pageConcurrency: os.cpus().length * 2,
+    outline: true,
+    outlineHeadings: false,
+    tocPageNumbers: false,
+    numbering: false,
+    secureBrowser: false,
+    pageRetries: 2,
+    pageRetryDelayMs: 1000,
+    strict: false,
+    allSidebars: false,
+    hideHeaderFooterOnCoverAndToc: false,
+    cover: false,
+    tabs: 'all',
+    renderTimeoutMs: 15000,
+    cache: true,
+    resume: false,
+    chunked: false,
+    chunkConcurrency: 2,
+};
+
+/**
+ * The options accepted by `convert`: the docs URL and the output path are required,
+ * every other option falls back to `DEFAULT_PDF_GENERATION_OPTIONS`.
+ */
+export type ConvertOptions = Pick<PdfGenerationOptions, 'docsUrl' | 'pdfPath'> & Partial<PdfGenerationOptions>;
+
+/**
+ * Applies the defaults to the given options and validates them.
+ * The output path gets a `.pdf` extension if it lacks one and is resolved to an absolute path.
+ *
+ * @param options The options as given by the caller.
+ * @returns {PdfGenerationOptions} The complete, validated options.
+ * @throws {Error} If a required option is missing or an option has an invalid value.
+ */
+export function normalizePdfGenerationOptions(options: ConvertOptions): PdfGenerationOptions {
+    const normalized: PdfGenerationOptions = { ...DEFAULT_PDF_GENERATION_OPTIONS, ...options };
+    // Options explicitly passed as undefined fall back to their defaults as well.
+    const optionsWithDefault: typeof DEFAULT_PDF_GENERATION_OPTIONS = normalized;
+    const applyDefault = <K extends keyof typeof DEFAULT_PDF_GENERATION_OPTIONS>(key: K) => {
+        if (optionsWithDefault[key] === undefined) {
+            optionsWithDefault[key] = DEFAULT_PDF_GENERATION_OPTIONS[key];
+        }
+    };
+    (Object.keys(DEFAULT_PDF_GENERATION_OPTIONS) as (keyof typeof DEFAULT_PDF_GENERATION_OPTIONS)[]).forEach(applyDefault);
+    
+    if (!normalized.docsUrl) {
+        throw new Error('Missing required option: docsUrl');
+    }
+    if (!normalized.pdfPath) {
+        throw new Error('Missing required option: pdfPath');
+    }
+    for (const key of ['pdfMarginMm', 'pageConcurrency', 'pageRetries', 'pageRetryDelayMs', 'renderTimeoutMs', 'chunkConcurrency'] as const) {
+        if (typeof normalized[key] !== 'number' || isNaN(normalized[key]) || normalized[key] < 0) {
+            throw new Error(`Invalid option ${key}: expected a non-negative number, got "${normalized[key]}".`);
+        }
+    }
+    for (const preset of normalized.presets || []) {
+        if (!PRINT_PRESETS[preset]) {
+            throw new Error(`Invalid option presets: unknown preset "${preset}", expected one of ${Object.keys(PRINT_PRESETS).join(', ')}.`);
+        }
+    }
+    if (normalized.tabs !== 'first' && normalized.tabs !== 'all') {
+        throw new Error(`Invalid option tabs: expected "first" or "all", got "${normalized.tabs}".`);
+    }
+    for (const [name, value] of Object.entries(normalized.httpHeaders || {})) {
+        if (typeof value !== 'string') {
+            throw new Error(`Invalid option httpHeaders: the value of header "${name}" must be a string.`);
+        }
+    }
+    if (normalized.basicAuth && (typeof normalized.basicAuth.username !== 'string' || typeof normalized.basicAuth.password !== 'string')) {
+        throw new Error('Invalid option basicAuth: expected an object with a username and a password.');
+    }
+    if (normalized.browserWSEndpoint && normalized.browserURL) {
+        throw new Error('Invalid options: browserWSEndpoint and browserURL cannot be used together.');
+    }
+    if (normalized.browserWSEndpoint || normalized.browserURL) {
+        for (const key of ['executablePath', 'browserArgs', 'secureBrowser'] as const) {
+            if (options[key] !== undefined) {
+                console.warn(`[Options] Warning: ${key} is ignored when connecting to a running browser.`);
+            }
+        }
+    } else if (normalized.executablePath && !fs.existsSync(normalized.executablePath)) {
+        throw new Error(`Invalid option executablePath: "${normalized.executablePath}" does not exist.`);
+    }
+    for (const key of ['pageConcurrency', 'chunkConcurrency'] as const) {
+        if (normalized[key] < 1) {
+            throw new Error(`Invalid option ${key}: expected at least 1, got "${normalized[key]}".`);
+        }
+    }
+    // Validate the paper format early so that a typo fails before the browser is launched.
+    resolvePaperFormat(normalized.paperFormat, normalized.landscape);
+    normalized.headerTemplate = resolveTemplate(normalized.headerTemplate, 'headerTemplate');
+    normalized.footerTemplate = resolveTemplate(normalized.footerTemplate, 'footerTemplate');
+    normalized.coverTemplate = resolveTemplate(normalized.coverTemplate, 'coverTemplate');
+    
+    if (!normalized.pdfPath.endsWith('.pdf')) {
+        console.warn(`[Options] Warning: pdfPath "${normalized.pdfPath}" does not end with .pdf. Appending .pdf extension.`);
+        normalized.pdfPath += '.pdf';
+    }
+    if (!path.isAbsolute(normalized.pdfPath)) {
+        normalized.pdfPath = path.resolve(process.cwd(), normalized.pdfPath);
+        console.log(`[Options] Resolved pdfPath to absolute: "${normalized.pdfPath}"`);
+    }
+    return normalized;
+}
+
+/**
+ * The site-wide details of a Docusaurus site, as returned by `extractSiteMetadata`.
+ */
+type SiteMetadata = Awaited<ReturnType<typeof extractSiteMetadata>>;
+
+/**
+ * Helper function: Resolves a header or footer template option, which is either inline HTML or the path of an HTML file.
+ *
+ * @param template The option value.
+ * @param optionName The name of the option, used in error messages.
+ * @returns {string | undefined} The template HTML, or undefined if the option is not set.
+ * @throws {Error} If the value looks like an HTML file path, but the file does not exist.
+ */
+function resolveTemplate(template: string | undefined, optionName: string): string | undefined {
+    if (!template || template.trim().startsWith('<')) {
+        return template;
+    }
+    const templatePath = path.resolve(template.replace(/^file:(\/\/)?/, ''));
+    if (fs.existsSync(templatePath) && fs.statSync(templatePath).isFile()) {
+        console.log(`[Options] Reading ${optionName} from file: ${templatePath}`);
+        return fs.readFileSync(templatePath, 'utf-8');
+    }
+    if (/\.html?$/i.test(template)) {
+        throw new Error(`Invalid option ${optionName}: template file not found: ${templatePath}`);
+    }
+    // Plain text is a valid (if minimal) template.
+    return template;
+}
+
+/**
+ * The URL prefix of links between the chunks of a chunked document, followed by the anchor ID (see
+ * `linkAnchorsAcrossChunks`). The reserved ".invalid" domain guarantees that no real link is mistaken for one.
+ */
+const CHUNK_LINK_URL_PREFIX = 'https://docs-to-pdf.invalid/anchor/';
+
+/**
+ * Helper function: Splits the sidebar into the chunks of a chunked document (see `PdfGenerationOptions.chunked`):
+ * one chunk per top-level sidebar item. When several sidebars are exported, every part gets a chunk for its title
+ * page, followed by one chunk per top-level item of its sidebar.
+ *
+ * @param sidebarItems The nested sidebar items of the document.
+ * @returns {Array<{ title: string, items: SidebarItem[] }>} The chunks in document order, with a title for logging
+ * and the sidebar items whose pages make up the chunk.
+ */
+function splitIntoChunks(sidebarItems: SidebarItem[]): { title: string; items: SidebarItem[] }[] {
+    return sidebarItems.flatMap(item => item.part
+        ? [
+            { title: item.title, items: [{ ...item, children: [] }] },
+            ...item.children.map(child => ({ title: child.title, items: [child] })),
+        ]
+        : [{ title: item.title, items: [item] }]);
+}
+
+/**
+ * The number of pages whose validators are requested per `page.evaluate()` call, which keeps every call well within
+ * Puppeteer's protocol timeout, and the number of requests sent at the same time, see `fetchPageHeaderValidators`.
+ */
+const VALIDATOR_BATCH_SIZE = 100;
+const VALIDATOR_CONCURRENCY = 8;
+
+/**
+ * The maximum time to wait for the response to a validator request, in milliseconds.
+ */
+const VALIDATOR_TIMEOUT_MS = 5000;
+
+/**
+ * Helper function: Opens the page cache for the pages of a documentation site, see `openPageCache`.
+ * The validators of the pages are requested from the main page, so the requests carry the site's authentication.
+ *
+ * The `ETag` (or else `Last-Modified`) header of a page is preferred, as it changes with the rendered page, including
+ * edited partials, imported components and theme changes. Header values shared by several pages (e.g. of a development
+ * server answering every route with the same document) are discarded, as they do not tell the pages apart. Pages
+ * without a usable header fall back to their `<lastmod>` date in the sitemap, which is looked up at the site's home
+ * page (which covers the base URL and the locale) and at the root of the server.
+ *
+ * @param page The main Puppeteer `Page`, showing a page of the documentation site.
+ * @param sidebarItems The nested sidebar items of the document.
+ * @param siteMetadata The site details read from the home page, see `readHomePageMetadata`.
+ * @param cacheDir The cache directory.
+ * @param localSiteUrl Optional. The URL of the local server when converting from a build directory.
+ * @returns {Promise<PageCache>} A Promise that resolves to the page cache.
+ */
+async function openSitePageCache(
+    page: Page,
+    sidebarItems: SidebarItem[],
+    siteMetadata: SiteMetadata,
+    cacheDir: string,
+    localSiteUrl?: string
+): Promise<PageCache> {
+    const collectPageUrls = (items: SidebarItem[]): string[] => items.flatMap(it => [...(hasOwnPage(it) ? [it.url] : []), ...collectPageUrls(it.children)]);
+    const origin = new URL(page.url()).origin;
+    const sitemapUrls = [
+        ...(siteMetadata.homeUrl && new URL(siteMetadata.homeUrl).origin === origin ? [new URL('sitemap.xml', siteMetadata.homeUrl).href] : []),
+        new URL('/sitemap.xml', origin).href,
+    ];
+    const pageUrls = collectPageUrls(sidebarItems);
+    
+    const validators: { [url: string]: string } = {};
+    for (let index = 0; index < pageUrls.length; index += VALIDATOR_BATCH_SIZE) {
+        const batch = pageUrls.slice(index, index + VALIDATOR_BATCH_SIZE);
+        Object.assign(validators, await page.evaluate(fetchPageHeaderValidators, batch, VALIDATOR_CONCURRENCY, VALIDATOR_TIMEOUT_MS));
+    }
+    const pagesByValidator = new Map<string, number>();
+    Object.values(validators).forEach(it => pagesByValidator.set(it, (pagesByValidator.get(it) || 0) + 1));
+    for (const url of Object.keys(validators)) {
+        if (pagesByValidator.get(validators[url])! > 1) {
+            delete validators[url];
+        }
+    }
+    
+    const pagesWithoutValidator = pageUrls.filter(it => !validators[it]);
+    if (pagesWithoutValidator.length > 0) {
+        // Docusaurus lists pages with or without the trailing slash, depending on the `trailingSlash` setting.
+        const normalizePath = (url: string) => new URL(url).pathname.replace(/\/+$/, '') || '/';
+        const lastModifiedByPath = new Map<string, string>();
+        const sitemapLastModified = await page.evaluate(fetchSitemapLastModified, [...new Set(sitemapUrls)], VALIDATOR_TIMEOUT_MS);
+        Object.entries(sitemapLastModified).forEach(([url, lastmod]) => lastModifiedByPath.set(normalizePath(url), lastmod));
+        for (const url of pagesWithoutValidator) {
+            const lastmod = lastModifiedByPath.get(normalizePath(url));
+            if (lastmod) {
+                validators[url] = 'lastmod:' + lastmod;
+            }
+        }
+    }
+    console.log(`[Cache] Using the page cache in ${path.resolve(cacheDir)}; ${Object.keys(validators).length} pages can be checked for changes.`);
+    return openPageCache(cacheDir, validators, localSiteUrl);
+}
+
+/**
+ * Helper function: Checks whether two render passes of a document put every anchor on the same page.
+ *
+ * @param previous The anchor page numbers of the earlier pass, see `readAnchorPageNumbers`.
+ * @param current The anchor page numbers of the later pass.
+ * @returns {boolean} True if both passes have the same anchors on the same pages.
+ */
+function haveSamePageNumbers(previous: Map<string, number>, current: Map<string, number>): boolean {
+    return previous.size === current.size && [...previous].every(([id, pageNumber]) => current.get(id) === pageNumber);
+}
+
+/**
+ * Helper function: Determines the page ranges of the chapters of a rendered document, i.e. of the top-level sidebar
+ * categories (within each part, when several sidebars are exported). A chapter starts at the first page of itself
+ * or any of its descendants and ends before the next chapter starts; part title pages start a chapter named after
+ * the part. The pages before the first chapter (cover and table of contents) form a range with an empty title.
+ *
+ * @param sidebarItems The nested sidebar items of the document.
+ * @param anchorPageNumbers The one-based page number of every anchor, see `readAnchorPageNumbers`.
+ * @param pageCount The number of pages of the document.
+ * @returns {Array<{ title: string, firstPage: number, lastPage: number }>} The ranges in page order, with one-based,
+ * inclusive page numbers, covering every page of the document.
+ */
+function resolveChapterRanges(
+    sidebarItems: SidebarItem[],
+    anchorPageNumbers: Map<string, number>,
+    pageCount: number
+): { title: string; firstPage: number; lastPage: number }[] {
+    const collectItemIds = (items: SidebarItem[]): string[] => items.flatMap(it => [it.id, ...collectItemIds(it.children)]);
+    const chapterStarts: { title: string; firstPage: number }[] = [];
+    const addChapter = (title: string, ids: string[]) => {
+        const pages = ids.map(id => anchorPageNumbers.get(id)).filter(it => it !== undefined) as number[];
+        if (pages.length > 0) {
+            chapterStarts.push({ title, firstPage: Math.min(...pages) });
+        }
+    };
+    for (const item of sidebarItems) {
+        if (item.part) {
+            addChapter(item.title, [item.id]);
+            item.children.forEach(child => addChapter(child.title, collectItemIds([child])));
+        } else {
+            addChapter(item.title, collectItemIds([item]));
+        }
+    }
+    chapterStarts.sort((a, b) => a.firstPage - b.firstPage);
+    
+    const ranges: { title: string; firstPage: number; lastPage: number }[] = [];
+    const firstChapterPage = chapterStarts.length > 0 ? chapterStarts[0].firstPage : pageCount + 1;
+    if (firstChapterPage > 1) {
+        ranges.push({ title: '', firstPage: 1, lastPage: firstChapterPage - 1 });
+    }
+    chapterStarts.forEach((chapter, index) => {
+        const lastPage = index + 1 < chapterStarts.length ? chapterStarts[index + 1].firstPage - 1 : pageCount;
+        // Chapters that start on the same page as the next one have no page of their own.
+        if (lastPage >= chapter.firstPage) {
+            ranges.push({ ...chapter, lastPage });
+        }
+    });
+    return ranges;
+}
+
+/**
+ * Converts a Docusaurus documentation site into PDF files. This is the programmatic entry point
+ * that the command-line interface is built on.
+ *
+ * Usually one PDF file is written to `pdfPath`. When several versions or locales are requested,
+ * one PDF file is written per version/locale combination (see `PdfGenerationOptions.pdfPath`).
+ *
+ * @example
+ * const result = await convert({ docsUrl: 'http://localhost:3000/docs/intro', pdfPath: 'docs.pdf' });
+ * console.log(`${result.outputs[0].pageCount} pages written to ${result.outputs[0].pdfPath}`);
+ *
+ * @param options The conversion options. Only `docsUrl` and `pdfPath` are required.
+ * @returns {Promise<ConversionResult>} A Promise that resolves to the written PDF files, their page counts,
+ * the pages that could not be extracted and the time spent.
+ * @throws {Error} If the options are invalid, the conversion fails, or in strict mode if any page could not be extracted.
+ */
+export async function convert(options: ConvertOptions): Promise<ConversionResult> {
+    const startTime = Date.now();
+    const pdfGenerationOptions = normalizePdfGenerationOptions(options);
+    
+    let server: StaticSiteServer | undefined;
+    let publicUrlMapping: [string, string] | undefined;
+    if (pdfGenerationOptions.buildDir) {
+        server = await startStaticSiteServer(pdfGenerationOptions.buildDir, pdfGenerationOptions.baseUrl);
+    }
+    
+    // The server is closed however the conversion ends, including malformed URLs that cannot be mapped to it.
+    try {
+        if (server) {
+            pdfGenerationOptions.docsUrl = toLocalSiteUrl(pdfGenerationOptions.docsUrl, server);
+            pdfGenerationOptions.sidebarUrls = pdfGenerationOptions.sidebarUrls?.map(it => toLocalSiteUrl(it, server));
+            console.log(`[Options] Converting from build directory, starting at: ${pdfGenerationOptions.docsUrl}`);
+            if (server.publicSiteUrl) {
+                publicUrlMapping = [server.siteUrl, server.publicSiteUrl];
+            } else {
+                console.warn(`[Options] Warning: The build has no canonical URL. Links to pages outside the export will point at the temporary local server.`);
+            }
+        }
+        return await convertVariants(pdfGenerationOptions, startTime, publicUrlMapping, server?.siteUrl);
+    } finally {
+        await server?.close();
+    }
+}
+
+/**
+ * Helper function: Converts every version/locale combination selected by the options, see `convert`.
+ *
+ * @param pdfGenerationOptions The normalized options.
+ * @param startTime The time the conversion started, in milliseconds since the epoch.
+ * @param publicUrlMapping Optional. The local and public site URL when converting from a build directory, see `rewriteLinks`.
+ * @param localSiteUrl Optional. The URL of the local server when converting from a build directory, see `openPageCache`.
+ * @returns {Promise<ConversionResult>} A Promise that resolves to the result of the conversion.
+ */
+async function convertVariants(
+    pdfGenerationOptions: PdfGenerationOptions,
+    startTime: number,
+    publicUrlMapping?: [string, string],
+    localSiteUrl?: string
+): Promise<ConversionResult> {
+    const variants = await resolveDocsVariants(
+        pdfGenerationOptions.docsUrl,
+        pdfGenerationOptions.versions,
+        pdfGenerationOptions.locales,
+        pdfGenerationOptions.pdfPath,
+        pdfGenerationOptions
+    );
+    
+    const outputs: PdfOutputResult[] = [];
+    for (const variant of variants) {
+        const variantPdfPath = formatPdfPath(pdfGenerationOptions.pdfPath, variant, variants);
+        const outputDir = path.dirname(variantPdfPath);
+        if (!fs.existsSync(outputDir)) {
+            console.log(`[Options] Creating output directory: ${outputDir}`);
+            fs.mkdirSync(outputDir, { recursive: true });
+        }
+        if (variants.length > 1) {
+            console.log(`[Conversion] Exporting version "${variant.version || 'current'}", locale "${variant.locale || 'default'}" to: ${variantPdfPath}`);
+        }
+        await pdfGenerationOptions.hooks?.onOutputStart?.(variant, variantPdfPath);
+        
+        const output = await convertDocusaurusPageToPdf(
+            { ...pdfGenerationOptions, docsUrl: variant.docsUrl, pdfPath: variantPdfPath },
+            variant,
+            publicUrlMapping,
+            localSiteUrl
+        );
+        outputs.push(output);
+        await pdfGenerationOptions.hooks?.onOutputWritten?.(output);
+    }
+    
+    return {
+        outputs,
+        failedPages: outputs.flatMap(it => it.failedPages),
+        timedOutPages: outputs.flatMap(it => it.timedOutPages),
+        totalMs: Date.now() - startTime,
+    };
+}
+
+/**
+ * Converts one version/locale combination of a Docusaurus documentation site into a single PDF file.
+ *
+ * @param options The `PdfGenerationOptions` controlling the conversion, with `docsUrl` and `pdfPath`
+ * already resolved for this variant.
+ * @param variant The version/locale combination being exported.
+ * @param publicUrlMapping Optional. The local and public site URL when converting from a build directory, see `rewriteLinks`.
+ * @param localSiteUrl Optional. The URL of the local server when converting from a build directory, see `openPageCache`.
+ * @returns {Promise<PdfOutputResult>} A Promise that resolves to the written PDF file's details, including the
+ * pages that could not be extracted (and were replaced by placeholder pages).
+ * @throws {Error} If the conversion fails, or in strict mode if any page could not be extracted.
+ */
+async function convertDocusaurusPageToPdf(
+    options: PdfGenerationOptions,
+    variant: DocsVariant,
+    publicUrlMapping?: [string, string],
+    localSiteUrl?: string
+): Promise<PdfOutputResult> {
+    const startTime = Date.now();
+
+    // Retrieve the dimensions (width and height in mm) for the specified paper format and orientation.
+    // These exact dimensions drive both `page.pdf()` and the cover page sizing.
+    const paperFormat: PaperFormat = resolvePaperFormat(options.paperFormat, options.landscape);
+    
+    /**
+     * Helper function: Builds the hierarchical sidebar items structure from an initial Docusaurus URL.
+     * This involves navigating to the URL, waiting for the main content to load,
+     * expanding the sidebar's collapsible sections, and then extracting the structured sidebar data.
+     * This function runs within the main Puppeteer page.
+     *
+     * @param page The Puppeteer `Page` instance to navigate and extract from.
+     * @param url The initial URL of the Docusaurus documentation to start sidebar parsing from.
+     * @returns {Promise<SidebarItem[]>} A Promise that resolves to a nested array of `SidebarItem` objects.
+     */
+    async function buildSidebarItems(page: Page, url: string): Promise<SidebarItem[]> {
+        console.log(`[Stage 1/4 - Setup] Navigating to initial Docusaurus URL for sidebar extraction: ${url}`);
+        await page.goto(url, {waitUntil: 'networkidle0', timeout: 60000});
+        await page.waitForSelector('#__docusaurus', {timeout: 60000});
+        await page.evaluate(expandDocusaurusSidebar);
+        return await page.evaluate(extractDocusaurusSidebarItems);
+    }
+    
+    /**
+     * Helper function: Builds the sidebar structure of the whole document from one or more docs sidebars.
+     * With a single sidebar, its items are returned as they are. With several sidebars (from `sidebarUrls`
+     * or discovered from the navbar with `allSidebars`), each sidebar is wrapped in a top-level part item
+     * titled after its navbar link. Start URLs that show no docs sidebar, or a sidebar that was already
+     * collected from another URL, are skipped.
+     *
+     * @param page The Puppeteer `Page` instance to navigate and extract from.
+     * @returns {Promise<SidebarItem[]>} A Promise that resolves to the nested sidebar items of the document.
+     */
+    async function buildSidebarParts(page: Page): Promise<SidebarItem[]> {
+        const startUrls = [options.docsUrl, ...(options.sidebarUrls || [])];
+        if (options.allSidebars) {
+            await page.goto(options.docsUrl, {waitUntil: 'networkidle0', timeout: 60000});
+            await page.waitForSelector('#__docusaurus', {timeout: 60000});
+            const navbarLinks = await page.evaluate(extractNavbarLinks);
+            console.log(`[Stage 2/4 - Data Collection] Checking ${navbarLinks.length} navbar links for docs sidebars: ${navbarLinks.map(it => it.label).join(', ')}`);
+            startUrls.push(...navbarLinks.map(it => it.url));
+        }
+        if (startUrls.length === 1) {
+            return await buildSidebarItems(page, options.docsUrl);
+        }
+        
+        const parts: SidebarItem[] = [];
+        const seenSidebars = new Set<string>();
+        for (const startUrl of startUrls) {
+            let items: SidebarItem[];
+            try {
+                items = await buildSidebarItems(page, startUrl);
+            } catch (error) {
+                console.warn(`[Stage 2/4 - Data Collection] Skipping ${startUrl}: no docs sidebar could be extracted (${error instanceof Error ? error.message : String(error)}).`);
+                continue;
+            }
+            // Identify a sidebar by its entries, so that several URLs showing the same sidebar yield one part.
+            const signature = items.map(it => it.url).join('\n');
+            if (items.length === 0 || seenSidebars.has(signature)) {
+                console.log(`[Stage 2/4 - Data Collection] Skipping ${startUrl}: ${items.length === 0 ? 'no docs sidebar found' : 'sidebar already collected'}.`);
+                continue;
+            }
+            seenSidebars.add(signature);
+            
+            const title = await page.evaluate(getSidebarTitle);
+            console.log(`[Stage 2/4 - Data Collection] Collected sidebar "${title}" with ${items.length} top-level items from ${startUrl}.`);
+            parts.push({
+                id: `part-${parts.length + 1}-${Date.now().toString(36)}`,
+                title: title,
+                path: '',
+                url: '#', // Parts have no page of their own, only a generated title page
+                children: items,
+                part: true,
+            });
+        }
+        
+        if (parts.length === 0) {
+            throw new Error(`No docs sidebar found at any of the start URLs: ${startUrls.join(', ')}`);
+        }
+        // A single sidebar needs no part level.
+        return parts.length === 1 ? parts[0].children : parts;
+    }
+    
+    /**
+     * Helper function: Reads the site details from the site's home page, whose meta description is the site's tagline
+     * (documentation pages describe themselves instead). The home page is opened in a separate browser page,
+     * so the main page keeps its state.
+     *
+     * @param browser The Puppeteer `Browser` instance to open the home page in.
+     * @param siteMetadata The site details read from the current documentation page, see `extractSiteMetadata`.
+     * @returns {Promise<SiteMetadata>} A Promise that resolves to the details of the home page, or to `siteMetadata`
+     * if the home page cannot be read.
+     */
+    async function readHomePageMetadata(browser: Browser, siteMetadata: SiteMetadata): Promise<SiteMetadata> {
+        if (!siteMetadata.homeUrl) {
+            return siteMetadata;
+        }
+        const homePage = await openPage(browser, pageAuth);
+        try {
+            console.log(`[Stage 2/4 - Data Collection] Reading site details from the home page: ${siteMetadata.homeUrl}`);
+            await homePage.goto(siteMetadata.homeUrl, {waitUntil: 'networkidle0', timeout: 60000});
+            return await homePage.evaluate(extractSiteMetadata);
+        } catch (homeError) {
+            console.warn(`[Stage 2/4 - Data Collection] Could not read the home page, using the details of the documentation page instead: ${homeError instanceof Error ? homeError.message : String(homeError)}`);
+            return siteMetadata;
+        } finally {
+            await homePage.close();
+        }
+    }
+    
+    /**
+     * Helper function: Collects the values of the generated cover page. Details that are not given as options are
+     * taken from the site's home page, and the logo is embedded as a data URL.
+     *
+     * @param browser The Puppeteer `Browser` instance to load the logo in.
+     * @param homeMetadata The site details read from the home page, see `readHomePageMetadata`.
+     * @param title The title of the document.
+     * @param version The documentation version.
+     * @param date The formatted build date.
+     * @param image The cover image as a data URL, or an empty string.
+     * @returns {Promise<CoverValues>} A Promise that resolves to the values of the cover template.
+     */
+    async function buildCoverValues(
+        browser: Browser,
+        homeMetadata: SiteMetadata,
+        title: string,
+        version: string,
+        date: string,
+        image: string
+    ): Promise<CoverValues> {
+        let logo = '';
+        const logoPage = await openPage(browser, pageAuth);
+        try {
+            const logoUrl = options.coverLogo ? resolveBrowserUrl(options.coverLogo) : homeMetadata.logoUrl;
+            if (logoUrl) {
+                const {imageBase64, imageMimeType} = await requestForImage(logoPage, logoUrl);
+                if (imageBase64 && imageMimeType) {
+                    logo = `data:${imageMimeType};base64,${imageBase64}`;
+                }
+            }
+        } catch (logoError) {
+            console.warn(`[Stage 2/4 - Data Collection] Could not load the cover logo. Leaving it out. Details: ${logoError instanceof Error ? logoError.message : String(logoError)}`);
+        } finally {
+            await logoPage.close();
+        }
+        
+        return {
+            title,
+            subtitle: options.coverSubtitle ?? homeMetadata.description,
+            logo,
+            image,
+            version,
+            date,
+            organization: options.coverOrganization || '',
+            legalNotice: options.coverLegalNotice ?? homeMetadata.copyright,
+            pageWidth: paperFormat.widthMm + 'mm',
+            pageHeight: paperFormat.heightMm + 'mm',
+        };
+    }
+    
+    /**
+     * Helper function: Draws the header and footer onto a PDF that was printed without them, with the `{chapter}`
+     * token filled in per chapter and, if requested, without header and footer on the cover and TOC pages.
+     * Chrome prints the header/footer layer of each page range from a document of empty pages, one per page of the
+     * PDF, so Chrome's `pageNumber` and `totalPages` count the pages of the whole document without laying out its
+     * content again. The empty pages replace the content of the page the document was printed from, so the `title`
+     * and `url` tokens show the document's title and URL. Consecutive ranges with identical templates are printed
+     * in one go.
+     *
+     * @param browser The Puppeteer `Browser` instance to open the layer page in.
+     * @param documentUrl The URL of the page the document was printed from.
+     * @param hasCoverPage Whether the document starts with a full-bleed cover page.
+     * @param pdfDoc The PDF printed without header and footer, which they are drawn on.
+     * @param pdfOptions The options the PDF was printed with.
+     * @param sidebarItems The nested sidebar items of the document, defining the chapters.
+     * @param tokens The values of the custom template tokens, except `chapter`.
+     * @returns {Promise<void>} A Promise that resolves once the header and footer are drawn on.
+     */
+    async function addHeaderFooterPerRange(
+        browser: Browser,
+        documentUrl: string,
+        hasCoverPage: boolean,
+        pdfDoc: PDFDocument,
+        pdfOptions: PDFOptions,
+        sidebarItems: SidebarItem[],
+        tokens: HeaderFooterTokens
+    ): Promise<void> {
+        const pageCount = pdfDoc.getPageCount();
+        const chapterRanges = resolveChapterRanges(sidebarItems, readAnchorPageNumbers(pdfDoc), pageCount);
+        
+        const layers: { firstPage: number; lastPage: number; headerTemplate: string; footerTemplate: string }[] = [];
+        for (const range of chapterRanges) {
+            // The untitled range before the first chapter holds the cover and the TOC.
+            if (range.title === '' && options.hideHeaderFooterOnCoverAndToc) {
+                continue;
+            }
+            const rangeTokens = { ...tokens, chapter: range.title };
+            const rangeHeaderTemplate = fillHeaderFooterTemplate(options.headerTemplate || DEFAULT_HEADER_TEMPLATE, rangeTokens);
+            const rangeFooterTemplate = fillHeaderFooterTemplate(options.footerTemplate || DEFAULT_FOOTER_TEMPLATE, rangeTokens);
+            const previousLayer = layers[layers.length - 1];
+            if (previousLayer && previousLayer.lastPage + 1 === range.firstPage
+                && previousLayer.headerTemplate === rangeHeaderTemplate && previousLayer.footerTemplate === rangeFooterTemplate) {
+                previousLayer.lastPage = range.lastPage;
+            } else {
+                layers.push({ firstPage: range.firstPage, lastPage: range.lastPage, headerTemplate: rangeHeaderTemplate, footerTemplate: rangeFooterTemplate });
+            }
+        }
+        console.log(`[Stage 4/4 - PDF Generation] Printing header and footer for ${chapterRanges.length} page ranges in ${layers.length} layers...`);
+        
+        const layerPage = await openPage(browser, pageAuth);
+        const overlays: PdfOverlay[] = [];
+        try {
+            await layerPage.goto(documentUrl, {waitUntil: 'networkidle0', timeout: 60000});
+            await layerPage.evaluate(replaceBodyInnerHtml, generateBlankPagesHtml(pageCount));
+            await applyPageMarginStyles(layerPage, hasCoverPage);
+            for (const layer of layers) {
+                overlays.push({
+                    pdfBytes: await layerPage.pdf({
+                        ...pdfOptions,
+                        printBackground: false,
+                        displayHeaderFooter: true,
+                        headerTemplate: layer.headerTemplate,
+                        footerTemplate: layer.footerTemplate,
+                        pageRanges: `${layer.firstPage}-${layer.lastPage}`,
+                    }),
+                    firstPageIndex: layer.firstPage - 1,
+                });
+            }
+        } finally {
+            await layerPage.close();
+        }
+        await overlayPdfPages(pdfDoc, overlays);
+    }
+    
+    /**
+     * Helper function: Applies the page margins to a page, and removes them from the first page if it is a cover page.
+     *
+     * @param targetPage The Puppeteer `Page` to style.
+     * @param hasCoverPage Whether the document starts with a full-bleed cover page.
+     */
+    async function applyPageMarginStyles(targetPage: Page, hasCoverPage: boolean): Promise<void> {
+        if (hasCoverPage) {
+            await targetPage.addStyleTag({
+                content: `
+                    @page:first {
+                        margin: 0 !important;
+                        padding: 0 !important;
+                    }
+                `
+            });
+            console.log("[Stage 3/4 - HTML Rendering] Applied special margin style for cover page.");
+        }
+        
+        await targetPage.addStyleTag({
+            content: `
+                @page {
+                    margin: ${options.pdfMarginMm}mm !important;
+                }
+            `
+        });
+        console.log(`[Stage 3/4 - HTML Rendering] Applied general page margins of ${options.pdfMarginMm}mm.`);
+    }
+    
+    /**
+     * Helper function: Injects merged HTML into a page showing a page of the documentation site, whose stylesheets
+     * then apply to it, and prepares it for printing: page margins, print markers, presets and user stylesheets,
+     * internal links, cross-reference numbers and the removal of unwanted elements. Resolves once the content has
+     * finished rendering.
+     *
+     * @param targetPage The Puppeteer `Page` to inject the HTML into.
+     * @param html The merged HTML, which replaces the body of the page.
+     * @param hasCoverPage Whether the HTML starts with a full-bleed cover page.
+     * @param urlToAnchors The URL and anchor ID of every extracted page, see `rewriteLinks`.
+     * @param numberedAnchors The anchors with their section numbers, see `numberCrossReferences`. Empty without numbering.
+     */
+    async function prepareMergedDocument(
+        targetPage: Page,
+        html: string,
+        hasCoverPage: boolean,
+        urlToAnchors: [string, string][],
+        numberedAnchors: [string, string, string][]
+    ): Promise<void> {
+        await targetPage.evaluate(replaceBodyInnerHtml, html);
+        await targetPage.evaluate(removeLazyLoading);
+        if (options.language) {
+            await targetPage.evaluate(setDocumentLanguage, options.language, getLanguageDirection(options.language));
+        }
+        console.log("[Stage 3/4 - HTML Rendering] HTML content injected into Puppeteer page's DOM.");
+        
+        await applyPageMarginStyles(targetPage, hasCoverPage);
+        
+        await targetPage.addStyleTag({ content: PRINT_MARKER_CSS });
+        if (options.presets && options.presets.length > 0) {
+            await targetPage.addStyleTag({ content: generatePrintPresetCss(options.presets) });
+            console.log(`[Stage 3/4 - HTML Rendering] Applied print presets: ${options.presets.join(', ')}`);
+        }
+        for (const stylesheet of options.css || []) {
+            await addStylesheet(targetPage, stylesheet);
+            console.log(`[Stage 3/4 - HTML Rendering] Applied user stylesheet: ${stylesheet}`);
+        }
+        
+        await targetPage.evaluate(rewriteLinks, urlToAnchors, publicUrlMapping);
+        console.log("[Stage 3/4 - HTML Rendering] Internal links rewritten to point to anchor IDs.");
+        
+        if (options.numbering) {
+            await targetPage.evaluate(numberCrossReferences, numberedAnchors);
+        }
+        
+        await targetPage.evaluate(
+            removeElements,
+            [
+                'nav.theme-doc-breadcrumbs',
+                'footer.theme-doc-footer',
+                'nav.pagination-nav',
+                ...(options.removeSelectors || []),
+            ],
+            options.keepSelectors || []
+        );
+        console.log("[Stage 3/4 - HTML Rendering] Unwanted elements removed from DOM.");
+        
+        console.log('[Stage 3/4 - HTML Rendering] Waiting for injected HTML to render and network to be idle...');
+        await targetPage.waitForNetworkIdle();
+        // The merged document loads the images and fonts of all pages again.
+        const mergedReadiness = await targetPage.evaluate(waitForRenderedContent, 'body', options.renderTimeoutMs);
+        if (mergedReadiness.pending.length > 0) {
+            console.warn(`[Stage 3/4 - HTML Rendering] Timed out waiting for ${mergedReadiness.pending.join(', ')} of the merged document. Printing it as it is.`);
+        }
+        console.log('[Stage 3/4 - HTML Rendering] HTML rendering and network idle complete.');
+    }
+    
+    /**
+     * Helper function: Prints a document in chunks, for sites too large to be printed from a single DOM. The front
+     * matter (cover and TOC) and every chunk of sidebar sections (see `splitIntoChunks`) are prepared in a browser page
+     * of their own, up to `chunkConcurrency` at a time, and printed to temporary files, which are then merged with
+     * pdf-lib (see `mergePdfFiles`). As a page is closed once its chunk is printed, the memory used by the browser is
+     * bounded by the largest chunks rather than by the whole document. The merged document, however, is loaded in the
+     * Node.js process as a whole for the header and footer, the outline and the metadata, so that memory still grows
+     * with the size of the document.
+     *
+     * Links between chunks and the named destinations of all anchors survive the merge (see `linkAnchorsAcrossChunks`),
+     * so internal links and bookmarks work as in a document printed in one piece. With TOC page numbers, the front
+     * matter is printed again once the page count of every chunk is known.
+     *
+     * @param browser The Puppeteer `Browser` instance to open the pages in.
+     * @param documentUrl The URL of a page of the documentation site, whose stylesheets apply to every chunk.
+     * @param frontMatterHtml The HTML of the cover and the TOC.
+     * @param hasCoverPage Whether the front matter starts with a full-bleed cover page.
+     * @param chunks The chunks in document order, with a title (for logging) and their merged HTML.
+     * @param pdfOptions The options to print every chunk with.
+     * @param urlToAnchors The URL and anchor ID of every extracted page, see `rewriteLinks`.
+     * @param numberedAnchors The anchors with their section numbers, see `numberCrossReferences`.
+     * @param sidebarItems The nested sidebar items of the document, listed in the TOC.
+     * @param tocTitle The title of the TOC.
+     * @returns {Promise<PDFDocument>} A Promise that resolves to the merged PDF, without header and footer.
+     */
+    async function printChunkedDocument(
+        browser: Browser,
+        documentUrl: string,
+        frontMatterHtml: string,
+        hasCoverPage: boolean,
+        chunks: { title: string; html: string }[],
+        pdfOptions: PDFOptions,
+        urlToAnchors: [string, string][],
+        numberedAnchors: [string, string, string][],
+        sidebarItems: SidebarItem[],
+        tocTitle: string
+    ): Promise<PDFDocument> {
+        const chunkDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docs-to-pdf-chunks-'));
+        
+        const openChunkPage = async (html: string, withCoverPage: boolean): Promise<Page> => {
+            const chunkPage = await openPage(browser, pageAuth);
+            try {
+                await chunkPage.goto(documentUrl, {waitUntil: 'networkidle0', timeout: 60000});
+                await prepareMergedDocument(chunkPage, html, withCoverPage, urlToAnchors, numberedAnchors);
+                await chunkPage.evaluate(linkAnchorsAcrossChunks, CHUNK_LINK_URL_PREFIX);
+                await options.hooks?.onBeforePdf?.(chunkPage);
+                return chunkPage;
+            } catch (error) {
+                await chunkPage.close();
+                throw error;
+            }
+        };
+        const printChunk = async (chunkPage: Page, fileName: string) => {
+            const chunkBytes = await chunkPage.pdf(pdfOptions);
+            const chunkPath = path.join(chunkDir, fileName);
+            fs.writeFileSync(chunkPath, chunkBytes);
+            const chunkDoc = await loadPdfDocument(chunkBytes);
+            return {
+                path: chunkPath,
+                pageCount: chunkDoc.getPageCount(),
+                anchorPageNumbers: options.tocPageNumbers ? readAnchorPageNumbers(chunkDoc) : new Map<string, number>(),
+            };
+        };
+        
+        try {
+            console.log(`[Stage 4/4 - PDF Generation] Rendering the front matter and ${chunks.length} chunks, ${options.chunkConcurrency} at a time...`);
+            const frontMatterPage = await openChunkPage(frontMatterHtml, hasCoverPage);
+            try {
+                let frontMatter = await printChunk(frontMatterPage, 'front-matter.pdf');
+                
+                const printedChunks: Awaited<ReturnType<typeof printChunk>>[] = new Array(chunks.length);
+                let nextChunkIndex = 0;
+                await Promise.all(Array.from({ length: Math.min(options.chunkConcurrency, chunks.length) }, async () => {
+                    while (nextChunkIndex < chunks.length) {
+                        const chunkIndex = nextChunkIndex++;
+                        const chunk = chunks[chunkIndex];
+                        console.log(`[Chunk ${chunkIndex + 1}/${chunks.length}] Rendering "${chunk.title}"...`);
+                        const chunkPage = await openChunkPage(chunk.html, false);
+                        try {
+                            printedChunks[chunkIndex] = await printChunk(chunkPage, `chunk-${chunkIndex + 1}.pdf`);
+                        } finally {
+                            await chunkPage.close();
+                        }
+                        console.log(`[Chunk ${chunkIndex + 1}/${chunks.length}] Printed "${chunk.title}" (${printedChunks[chunkIndex].pageCount} pages).`);
+                    }
+                }));
+                
+                if (options.tocPageNumbers) {
+                    // The page numbers of the whole document follow from the page counts of the chunks before each chunk.
+                    console.log('[Stage 4/4 - PDF Generation] Resolving table of contents page numbers from the printed chunks...');
+                    const pageNumbers = new Map(frontMatter.anchorPageNumbers);
+                    let pageOffset = frontMatter.pageCount;
+                    for (const printedChunk of printedChunks) {
+                        printedChunk.anchorPageNumbers.forEach((pageNumber, anchor) => pageNumbers.set(anchor, pageOffset + pageNumber));
+                        pageOffset += printedChunk.pageCount;
+                    }
+                    await frontMatterPage.evaluate(replaceElementOuterHtml, '.docusaurus-toc-body', generateTocHtml(sidebarItems, tocTitle, pageNumbers));
+                    await frontMatterPage.evaluate(linkAnchorsAcrossChunks, CHUNK_LINK_URL_PREFIX);
+                    const unnumberedPageCount = frontMatter.pageCount;
+                    frontMatter = await printChunk(frontMatterPage, 'front-matter.pdf');
+                    if (frontMatter.pageCount !== unnumberedPageCount) {
+                        console.warn(`[Stage 4/4 - PDF Generation] Warning: The numbered table of contents takes ${frontMatter.pageCount} instead of ${unnumberedPageCount} pages. Its page numbers may be off.`);
+                    }
+                }
+                
+                console.log(`[Stage 4/4 - PDF Generation] Merging the front matter and ${chunks.length} chunks...`);
+                return await mergePdfFiles([frontMatter.path, ...printedChunks.map(it => it.path)], CHUNK_LINK_URL_PREFIX);
+            } finally {
+                await frontMatterPage.close();
+            }
+        } finally {
+            fs.rmSync(chunkDir, { recursive: true, force: true });
+        }
+    }
+    
+    let browser: Browser | undefined;
+    let pageAuth: PageAuthentication | undefined;
+    let failedPages: PageDetails[] = [];
+    let pageCheckpoint: PageCheckpoint | undefined;
+    try {
+        // --- Stage 1: Browser and Page Setup ---
+        console.log("[Stage 1/4 - Setup] Launching browser...");
+        const launched = await launchAuthenticatedBrowser(
+            options,
+            [options.docsUrl, ...(options.sidebarUrls || [])],
+            '[Stage 1/4 - Setup]'
+        );
+        browser = launched.browser;
+        pageAuth = launched.pageAuth;
+        console.log("[Stage 1/4 - Setup] Browser launched successfully.");
+        let assetCache: AssetCache | undefined;
+        if (options.cache) {
+            try {
+                assetCache = openAssetCache(options.cacheDir || DEFAULT_CACHE_DIR, localSiteUrl);
+                useAssetCache(browser, assetCache);
+            } catch (cacheError) {
+                console.warn(`[Cache] Could not open the asset cache, loading every asset from the site. Details: ${cacheError instanceof Error ? cacheError.message : String(cacheError)}`);
+            }
+        }
+        console.log("[Stage 1/4 - Setup] Creating new Puppeteer page...");
+        const page = await openPage(browser, pageAuth);
+        console.log("[Stage 1/4 - Setup] Page created.");
+        
+        let coverImageBase64: string | undefined;
+        let coverImageMimeType: string | undefined;
+        
+        // The cover image is dropped below if its path cannot be resolved.
+        let pdfCoverImage = options.pdfCoverImage;
+        // If a PDF cover image path/URL is provided, resolve it to a browser-compatible URL
+        // and then request and base64 encode it.
+        if (pdfCoverImage) {
+            console.log(`[Stage 1/4 - Setup] Resolving cover image path: "${pdfCoverImage}"`);
+            let resolvedCoverImageUrl: string;
+            try {
+                resolvedCoverImageUrl = resolveBrowserUrl(pdfCoverImage);
+                console.log(`[Stage 1/4 - Setup] Resolved to browser URL: "${resolvedCoverImageUrl}"`);
+            } catch (pathError) {
+                console.error(`[Stage 1/4 - Setup] ERROR: Could not resolve cover image path "${pdfCoverImage}". Skipping cover page. Details: ${pathError instanceof Error ? pathError.message : String(pathError)}`);
+                pdfCoverImage = undefined; // Nullify pdfCoverImage to skip cover generation
+            }
+            
+            if (pdfCoverImage) { // Check again in case it was nullified
+                console.log("[Stage 1/4 - Setup] Requesting cover image data...");
+                const {imageBase64, imageMimeType} = await requestForImage(page, resolvedCoverImageUrl!); // Use ! as we handled nullification
+                console.log("[Stage 1/4 - Setup] Cover image data successfully retrieved.");
+                coverImageBase64 = imageBase64;
+                coverImageMimeType = imageMimeType;
+            }
+        }
+        
+        const setupEndTime = Date.now();
+        
+        // --- Stage 2: Data Collection (Sidebar & Page Content) ---
+        console.log("[Stage 2/4 - Data Collection] Building sidebar structure...");
+        const sidebarFilter: SidebarFilter = { include: options.include, exclude: options.exclude, categories: options.categories, excludeCategories: options.excludeCategories };
+        let sidebarItems: SidebarItem[] = filterSidebarItems(await buildSidebarParts(page), sidebarFilter);
+        if (sidebarItems.length === 0) {
+            throw new Error('No documentation page matches the include/exclude patterns and categories.');
+        }
+        console.log(`[Stage 2/4 - Data Collection] Sidebar structure built with ${sidebarItems.length} top-level items.`);
+        if (options.numbering) {
+            sidebarItems = numberSidebarItems(sidebarItems);
+            console.log('[Stage 2/4 - Data Collection] Sidebar items numbered for heading numbering.');
+        }
+        await options.hooks?.onSidebarBuilt?.(sidebarItems);
+        
+        // Title the TOC in the language of the documentation unless a title is given explicitly.
+        const documentLanguage = options.language || await page.evaluate(getDocumentLanguage);
+        const resolvedTocTitle = options.tocTitle || getLocalizedTocTitle(documentLanguage);
+        
+        // The custom tokens of the header and footer templates; `chapter` is filled in per page range in Stage 4.
+        const siteMetadata = await readHomePageMetadata(browser, await page.evaluate(extractSiteMetadata));
+        const headerFooterTokens: HeaderFooterTokens = {
+            docTitle: options.documentTitle || siteMetadata.title,
+            chapter: '',
+            version: variant.version || (await page.evaluate(extractNavbarDropdowns)).currentVersion,
+            buildDate: formatBuildDate(new Date(), documentLanguage),
+        };
+        
+        const generatedCover = options.cover || !!options.coverTemplate;
+        let coverValues: CoverValues | undefined;
+        if (generatedCover) {
+            const coverImage = coverImageBase64 && coverImageMimeType ? `data:${coverImageMimeType};base64,${coverImageBase64}` : '';
+            coverValues = await buildCoverValues(browser, siteMetadata, headerFooterTokens.docTitle, headerFooterTokens.version, headerFooterTokens.buildDate, coverImage);
+            console.log(`[Stage 2/4 - Data Collection] Cover details collected for "${coverValues.title}".`);
+        }
+        
+        const buildDetailsStartTime = Date.now();
+        console.log(`[Stage 2/4 - Data Collection] Starting concurrent content extraction for all documentation pages.`);
+        
+        let pageCache: PageCache | undefined;
+        if (options.cache) {
+            try {
+                pageCache = await openSitePageCache(page, sidebarItems, siteMetadata, options.cacheDir || DEFAULT_CACHE_DIR, localSiteUrl);
+            } catch (cacheError) {
+                console.warn(`[Cache] Could not open the page cache, rendering every page. Details: ${cacheError instanceof Error ? cacheError.message : String(cacheError)}`);
+            }
+        }
+        pageCheckpoint = openPageCheckpoint(getCheckpointPath(options.pdfPath), options.docsUrl, options.resume, localSiteUrl);
+        const pageDetails = await buildPageDetailsParallel(browser, sidebarItems, options.pageConcurrency, options.pageRetries, options.pageRetryDelayMs, options.hooks?.onPageProcessed, { tabs: options.tabs, renderTimeoutMs: options.renderTimeoutMs, auth: pageAuth, cache: pageCache, checkpoint: pageCheckpoint });
+        const buildDetailsEndTime = Date.now();
+        const buildDetailsDuration = (buildDetailsEndTime - buildDetailsStartTime) / 1000;
+        console.log(`[Stage 2/4 - Data Collection] Content extraction completed. Took ${buildDetailsDuration.toFixed(2)} seconds.`);
+        if (pageCheckpoint.stats.resumed > 0) {
+            console.log(`[Checkpoint] Resumed ${pageCheckpoint.stats.resumed} of ${pageDetails.length} pages from the interrupted run.`);
+        }
+        if (pageCache) {
+            console.log(`[Cache] Reused ${pageCache.stats.hits} of ${pageDetails.length} pages, stored ${pageCache.stats.stored} pages in ${pageCache.dir}.`);
+        }
+        
+        failedPages = pageDetails.filter(it => it.error !== undefined);
+        const timedOutPages = pageDetails.filter(it => it.renderTimeouts !== undefined);
+        if (failedPages.length > 0 && options.strict) {
+            logFailedPagesSummary(failedPages);
+            throw new Error(`${failedPages.length} page(s) could not be extracted. Aborting because strict mode is enabled.`);
+        }
+        
+        // --- Stage 3: HTML Merging and Rendering on Page ---
+        console.log("[Stage 3/4 - HTML Rendering] Merging all extracted HTML content...");
+        let frontMatterHtml = '';
+        if (coverValues) {
+            frontMatterHtml += generateTemplatedCoverHtml(options.coverTemplate || DEFAULT_COVER_TEMPLATE, coverValues);
+        } else if (pdfCoverImage && coverImageBase64 && coverImageMimeType) {
+            const coverHtml = generateCoverHtml(
+                coverImageMimeType,
+                coverImageBase64,
+                paperFormat // Pass the resolved paper format object
+            );
+            frontMatterHtml += coverHtml;
+        } else if (pdfCoverImage) {
+            console.warn("[Stage 3/4 - HTML Rendering] PDF Cover Image URL was provided but image data could not be retrieved. Skipping cover page.");
+        }
+        const hasCoverPage = !!(coverValues || pdfCoverImage);
+        
+        // With page numbers enabled, the TOC is first rendered with an empty page number column,
+        // which keeps its layout identical to the final, numbered TOC rendered in Stage 4.
+        const tocHtml = generateTocHtml(sidebarItems, resolvedTocTitle, options.tocPageNumbers ? new Map() : undefined);
+        frontMatterHtml += tocHtml;
+        
+        // Merge the pages in sidebar order, preceding each part (whole sidebar) with its title page and each category
+        // without a page of its own with a section divider page, so every TOC entry and bookmark has its anchor.
+        const pageDetailsById = new Map(pageDetails.map(it => [it.id, it] as [string, PageDetails]));
+        const dividerIds: string[] = [];
+        const mergeItems = (items: SidebarItem[], depth: number): string => {
+            let itemsHtml = '';
+            for (const item of items) {
+                const singlePageDetail = pageDetailsById.get(item.id);
+                if (item.part) {
+                    itemsHtml += generatePartTitleHtml(item, paperFormat, options.pdfMarginMm);
+                } else if (singlePageDetail) {
+                    itemsHtml += singlePageDetail.html;
+                } else if (item.children.length > 0) {
+                    itemsHtml += generateSectionDividerHtml(item, depth, paperFormat, options.pdfMarginMm);
+                    dividerIds.push(item.id);
+                }
+                itemsHtml += mergeItems(item.children, item.part ? depth : depth + 1);
+            }
+            return itemsHtml;
+        };
+        // In chunked mode, the front matter and every chunk of sidebar sections become documents of their own.
+        const chunks = options.chunked ? splitIntoChunks(sidebarItems).map(it => ({ title: it.title, html: mergeItems(it.items, 0) })) : [];
+        let html = options.chunked ? '' : frontMatterHtml + mergeItems(sidebarItems, 0);
+        if (dividerIds.length > 0) {
+            console.log(`[Stage 3/4 - HTML Rendering] Added ${dividerIds.length} section divider page(s) for categories without a page of their own.`);
+        }
+        
+        const outlineItems = options.outline ? buildOutline(sidebarItems, pageDetails, options.outlineHeadings) : [];
+        if (options.outline && !options.chunked) {
+            // Link every outline anchor so that Chrome writes a named destination for it into the PDF.
+            // (Chunks link every anchor anyway, see `linkAnchorsAcrossChunks`.)
+            const outlineAnchors = [...dividerIds, ...pageDetails.flatMap(it => [it.id, ...(options.outlineHeadings ? it.headings.map(heading => heading.id) : [])])];
+            html += generateAnchorLinksHtml(outlineAnchors);
+        }
+        
+        // Only pages whose content was extracted carry their anchor in the merged document;
+        // links to any other page are kept as external links.
+        const urlToAnchors = pageDetails
+            .filter(it => !!it.html)
+            .map(it => [it.url, it.id] as [string, string]);
+        // The numbered targets: sidebar items (pages, categories) and the numbered headings of the pages.
+        const collectNumbered = (items: SidebarItem[]): [string, string, string][] => items.flatMap(it => [
+            ...(it.number ? [[it.id, it.number, it.title] as [string, string, string]] : []),
+            ...collectNumbered(it.children),
+        ]);
+        const numberedAnchors = options.numbering ? [
+            ...collectNumbered(sidebarItems),
+            ...pageDetails.flatMap(it => (it.numberedHeadings || []).map(heading => [heading.anchor, heading.number, heading.title] as [string, string, string])),
+        ] : [];
+        
+        if (!options.chunked) {
+            console.log("[Stage 3/4 - HTML Rendering] All content merged. Injecting into Puppeteer page...");
+            await prepareMergedDocument(page, html, hasCoverPage, urlToAnchors, numberedAnchors);
+            await options.hooks?.onBeforePdf?.(page);
+        }
+        
+        // --- Stage 4: PDF Generation ---
+        console.log(`[Stage 4/4 - PDF Generation] Starting PDF generation to: ${options.pdfPath} (${paperFormat.widthMm}mm x ${paperFormat.heightMm}mm)...`);
+        const pdfStartTime = Date.now();
+        const pdfOptions: PDFOptions = {
+            width: paperFormat.widthMm + 'mm',
+            height: paperFormat.heightMm + 'mm',
+            printBackground: true,
+            margin: {
+                top: options.pdfMarginMm + 'mm',
+                bottom: options.pdfMarginMm + 'mm',
+                left: options.pdfMarginMm + 'mm',
+                right: options.pdfMarginMm + 'mm',
+            },
+            displayHeaderFooter: true,
+            headerTemplate: fillHeaderFooterTemplate(options.headerTemplate || DEFAULT_HEADER_TEMPLATE, headerFooterTokens),
+            footerTemplate: fillHeaderFooterTemplate(options.footerTemplate || DEFAULT_FOOTER_TEMPLATE, headerFooterTokens),
+            timeout: 0,
+        };
+        // Chrome prints the same header and footer on every page. When they differ between pages (per chapter,
+        // or left out on the cover and TOC), the document is printed without them and they are drawn on afterwards.
+        // So are those of a chunked document, as Chrome's page numbers would start anew in every chunk.
+        const headerFooterPerRange = options.chunked
+            || options.hideHeaderFooterOnCoverAndToc
+            || /\{chapter}/.test((options.headerTemplate || '') + (options.footerTemplate || ''));
+        if (headerFooterPerRange) {
+            pdfOptions.displayHeaderFooter = false;
+        }
+        
+        // The printed document is loaded once; the header and footer, the outline and the metadata are added to it
+        // before it is saved.
+        let pdfDoc: PDFDocument;
+        if (options.chunked) {
+            pdfDoc = await printChunkedDocument(browser, page.url(), frontMatterHtml, hasCoverPage, chunks, pdfOptions, urlToAnchors, numberedAnchors, sidebarItems, resolvedTocTitle);
+        } else {
+            pdfDoc = await loadPdfDocument(await page.pdf(pdfOptions));
+            
+            if (options.tocPageNumbers) {
+                // Second pass: the first PDF tells on which page every sidebar item starts.
+                console.log('[Stage 4/4 - PDF Generation] Resolving table of contents page numbers from the first render pass...');
+                const pageNumbers = readAnchorPageNumbers(pdfDoc);
+                await page.evaluate(replaceElementOuterHtml, '.docusaurus-toc-body', generateTocHtml(sidebarItems, resolvedTocTitle, pageNumbers));
+                console.log(`[Stage 4/4 - PDF Generation] Resolved page numbers for ${pageNumbers.size} anchors. Rendering final PDF...`);
+                pdfDoc = await loadPdfDocument(await page.pdf(pdfOptions));
+                
+                // The numbered TOC can take more pages than the unnumbered one, which moves every page after it.
+                // Measure again and render once more with the page numbers of the document as it is now.
+                const renderedPageNumbers = readAnchorPageNumbers(pdfDoc);
+                if (!haveSamePageNumbers(pageNumbers, renderedPageNumbers)) {
+                    console.log('[Stage 4/4 - PDF Generation] The numbered table of contents moved the pages after it. Rendering the PDF again...');
+                    await page.evaluate(replaceElementOuterHtml, '.docusaurus-toc-body', generateTocHtml(sidebarItems, resolvedTocTitle, renderedPageNumbers));
+                    pdfDoc = await loadPdfDocument(await page.pdf(pdfOptions));
+                    if (!haveSamePageNumbers(renderedPageNumbers, readAnchorPageNumbers(pdfDoc))) {
+                        console.warn('[Stage 4/4 - PDF Generation] Warning: The page numbers of the table of contents still change between render passes. They may be off.');
+                    }
+                }
+            }
+        }
+        
+        if (headerFooterPerRange) {
+            await addHeaderFooterPerRange(browser, page.url(), hasCoverPage, pdfDoc, pdfOptions, sidebarItems, headerFooterTokens);
+        }
+        
+        if (options.outline) {
+            console.log('[Stage 4/4 - PDF Generation] Adding PDF outline (bookmarks) from the sidebar structure...');
+            addPdfOutline(pdfDoc, outlineItems);
+        }
+        setPdfMetadata(pdfDoc, {
+            title: headerFooterTokens.docTitle,
+            author: options.author ?? siteMetadata.author,
+            subject: options.subject ?? siteMetadata.description,
+            keywords: options.keywords ?? siteMetadata.keywords,
+            creator: options.creator || 'docusaurus-docs-to-pdf',
+            language: documentLanguage,
+        });
+        console.log(`[Stage 4/4 - PDF Generation] PDF metadata written (title "${headerFooterTokens.docTitle}", language "${documentLanguage}").`);
+        fs.writeFileSync(options.pdfPath, await pdfDoc.save());
+        const pageCount = pdfDoc.getPageCount();
+        const pdfEndTime = Date.now();
+        const pdfDuration = (pdfEndTime - pdfStartTime) / 1000;
+        console.log(`[Stage 4/4 - PDF Generation] PDF generated successfully with ${pageCount} pages. Took ${pdfDuration.toFixed(2)} seconds.`);
+        if (assetCache) {
+            console.log(`[Cache] Reused ${assetCache.stats.reused} assets, stored ${assetCache.stats.stored} assets in ${assetCache.dir}.`);
+        }
+        // The output is complete, so there is nothing left to resume.
+        pageCheckpoint.remove();
+        
+        if (failedPages.length > 0) {
+            logFailedPagesSummary(failedPages);
+        }
+        if (timedOutPages.length > 0) {
+            logTimedOutPagesSummary(timedOutPages);
+        }
+        return {
+            pdfPath: options.pdfPath,
+            variant,
+            pageCount,
+            documentCount: pageDetails.length,
+            failedPages,
+            timedOutPages,
+            timings: {
+                setupMs: setupEndTime - startTime,
+                extractionMs: buildDetailsEndTime - setupEndTime,
+                renderingMs: pdfStartTime - buildDetailsEndTime,
+                pdfMs: pdfEndTime - pdfStartTime,
+                totalMs: pdfEndTime - startTime,
+            },
+        };
+    } catch (error) {
+        console.error(`[PDF Conversion ERROR] An error occurred during the PDF conversion process: ${error instanceof Error ? error.message : String(error)}`);
+        if (pageCheckpoint && pageCheckpoint.stats.resumed + pageCheckpoint.stats.written > 0) {
+            console.error(`[Checkpoint] The extracted pages are saved in ${pageCheckpoint.path}. Run again with --resume to continue from there.`);
+        }
+        // Rethrow so that the caller (and the process exit code) reflects the failed conversion.
+        throw error;
+    } finally {
+        if (browser) {
+            console.log("[Cleanup] Closing browser...");
+            await closeBrowser(browser);
+            console.log("[Cleanup] Browser closed.");
+        }
+    }
+}
+
+
+/**
+ * Resolves the version/locale combinations of a Docusaurus site that should be exported.
+ *
+ * Versions and locales are discovered from the navbar dropdowns: the locale dropdown links to the
+ * start page in every locale, and, within each locale, the version dropdown links to it in every version.
+ * Requested names are matched case-insensitively against the dropdown entries; a locale also matches
+ * its language-region variants (e.g. 'zh' matches 'zh-Hans').
+ *
+ * Without requested versions or locales and without placeholders in the PDF path, the start page is
+ * used as the only variant without launching a browser.
+ *
+ * @param docsUrl The URL of the documentation page to start from.
+ * @param versions The requested version names, ['all'] for every version, or undefined for the current version only.
+ * @param locales The requested locales, ['all'] for every locale, or undefined for the current locale only.
+ * @param pdfPath The output path pattern, used to decide whether the current version/locale names are needed.
+ * @returns {Promise<DocsVariant[]>} A Promise that resolves to the variants to export, locale by locale.
+ * @throws {Error} If a requested version or locale is not found in the navbar dropdowns.
+ */
+export async function resolveDocsVariants(
+    docsUrl: string,
+    versions: string[] | undefined,
+    locales: string[] | undefined,
+    pdfPath: string,
+    authOptions: BrowserSessionOptions = {}
+): Promise<DocsVariant[]> {
+    const needsVariantNames = /\{(version|locale)}/.test(pdfPath);
+    if (!versions?.length && !locales?.length && !needsVariantNames) {
+        return [{ version: '', locale: '', docsUrl }];
+    }
+    
+    /**
+     * Helper function: Picks the requested dropdown entries, keeping the dropdown order.
+     */
+    const selectEntries = <T extends { name: string; label: string }>(kind: string, entries: T[], requested: string[], allowPrefix: boolean): T[] => {
+        if (requested.length === 1 && requested[0].toLowerCase() === 'all') {
+            return entries;
+        }
+        return requested.map(name => {
+            const lowerName = name.toLowerCase();
+            const entry = entries.find(it => it.name.toLowerCase() === lowerName || it.label.toLowerCase() === lowerName)
+                || (allowPrefix ? entries.find(it => it.name.toLowerCase().startsWith(lowerName + '-')) : undefined);
+            if (!entry) {
+                throw new Error(`The ${kind} "${name}" was not found in the navbar ${kind} dropdown. Available: ${entries.map(it => it.name).join(', ') || 'none'}.`);
+            }
+            return entry;
+        });
+    };
+    
+    console.log('[Variant Discovery] Launching browser to discover documentation versions and locales...');
+    const { browser, pageAuth } = await launchAuthenticatedBrowser(authOptions, [docsUrl], '[Variant Discovery]');
+    try {
+        const page = await openPage(browser, pageAuth);
+        
+        /**
+         * Helper function: Opens a documentation page and reads its navbar dropdowns.
+         */
+        const loadDropdowns = async (url: string) => {
+            await page.goto(url, {waitUntil: 'networkidle0', timeout: 60000});
+            await page.waitForSelector('#__docusaurus', {timeout: 60000});
+            return await page.evaluate(extractNavbarDropdowns);
+        };
+        
+        const startDropdowns = await loadDropdowns(docsUrl);
+        const localeEntries = locales?.length
+            ? selectEntries('locale', startDropdowns.locales, locales, true)
+            : [{ name: startDropdowns.currentLocale, label: startDropdowns.currentLocale, url: docsUrl }];
+        
+        const variants: DocsVariant[] = [];
+        for (const localeEntry of localeEntries) {
+            const dropdowns = localeEntry.url === docsUrl ? startDropdowns : await loadDropdowns(localeEntry.url);
+            if (versions?.length) {
+                for (const versionEntry of selectEntries('version', dropdowns.versions, versions, false)) {
+                    variants.push({ version: versionEntry.name, locale: localeEntry.name, docsUrl: versionEntry.url });
+                }
+            } else {
+                variants.push({ version: dropdowns.currentVersion, locale: localeEntry.name, docsUrl: localeEntry.url });
+            }
+        }
+        
+        console.log(`[Variant Discovery] Exporting ${variants.length} variant(s): ${variants.map(it => `${it.version || '-'}/${it.locale || '-'}`).join(', ')}`);
+        return variants;
+    } finally {
+        await closeBrowser(browser);
+    }
+}
+
+/**
+ * Resolves the `{version}` and `{locale}` placeholders of an output path pattern for one variant.
+ * Names are made file-system safe (e.g. 'Next 🚧' becomes 'Next'). If several variants are exported
+ * but the pattern lacks a placeholder for a varying dimension, it is appended to the file name,
+ * so that the PDF files do not overwrite each other.
+ *
+ * @param pdfPath The output path pattern, e.g. 'output/docs-{version}-{locale}.pdf'.
+ * @param variant The variant to resolve the pattern for.
+ * @param variants All variants being exported, used to detect varying dimensions.
+ * @returns {string} The output path for this variant.
+ */
+export function formatPdfPath(pdfPath: string, variant: DocsVariant, variants: DocsVariant[]): string {
+    const toFileName = (name: string) => name.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+    
+    let pattern = pdfPath;
+    for (const key of ['version', 'locale'] as const) {
+        const varies = new Set(variants.map(it => it[key])).size > 1;
+        if (varies && !pattern.includes(`{${key}}`)) {
+            pattern = pattern.replace(/\.pdf$/, `-{${key}}.pdf`);
+        }
+    }
+    return pattern
+        .replace(/\{version}/g, toFileName(variant.version) || 'current')
+        .replace(/\{locale}/g, toFileName(variant.locale) || 'default');
+}
+
+/**
+ * Helper function: Launches (or connects to) the browser and signs it in to the documentation site: loads the cookie jar into
+ * the browser, then runs the login script and the `onLogin` hook. The headers of `httpHeaders` and `basicAuth`
+ * are returned as the authentication to apply to every page opened afterwards, see `openPage`.
+ *
+ * @param options The authentication options.
+ * @param siteUrls The URLs of the documentation, whose origins receive the headers.
+ * @param logPrefix The prefix of the log messages, e.g. '[Stage 1/4 - Setup]'.
+ * @returns {Promise<{ browser: Browser, pageAuth?: PageAuthentication }>} A Promise that resolves to the launched
+ * browser and the authentication of its pages (undefined if no headers are needed).
+ * @throws {Error} If the cookie jar or login script cannot be loaded, or the login fails. The browser is closed then.
+ */
+async function launchAuthenticatedBrowser(
+    options: BrowserSessionOptions,
+    siteUrls: string[],
+    logPrefix: string
+): Promise<{ browser: Browser; pageAuth?: PageAuthentication }> {
+    const headers: { [name: string]: string } = { ...(options.httpHeaders || {}) };
+    if (options.basicAuth) {
+        headers['Authorization'] = 'Basic ' + Buffer.from(`${options.basicAuth.username}:${options.basicAuth.password}`).toString('base64');
+    }
+    const pageAuth: PageAuthentication | undefined = Object.keys(headers).length > 0
+        ? { headers, origins: Array.from(new Set(siteUrls.map(it => new URL(it).origin))) }
+        : undefined;
+    
+    const browser = await launchBrowser(options);
+    if (options.browserWSEndpoint || options.browserURL) {
+        console.log(`${logPrefix} Connected to the running browser ${await browser.version()}.`);
+    }
+    try {
+        if (options.cookieJar) {
+            const cookies = loadCookieJar(options.cookieJar);
+            await getBrowserContext(browser).setCookie(...cookies);
+            console.log(`${logPrefix} Loaded ${cookies.length} cookie(s) from the cookie jar.`);
+        }
+        const loginScripts: LoginScript[] = [];
+        if (options.loginScript) {
+            const exported = await loadScriptModule(options.loginScript);
+            if (typeof exported !== 'function') {
+                throw new Error(`The login script "${options.loginScript}" must export a function (page, { browser, docsUrl }) => Promise<void>.`);
+            }
+            loginScripts.push(exported as LoginScript);
+        }
+        if (options.hooks?.onLogin) {
+            loginScripts.push(options.hooks.onLogin);
+        }
+        for (const loginScript of loginScripts) {
+            console.log(`${logPrefix} Running login script...`);
+            const loginPage = await openPage(browser, pageAuth);
+            try {
+                await loginScript(loginPage, { browser, docsUrl: siteUrls[0] });
+            } finally {
+                await loginPage.close();
+            }
+            console.log(`${logPrefix} Login script finished.`);
+        }
+    } catch (error) {
+        await closeBrowser(browser);
+        throw error;
+    }
+    return { browser, pageAuth };
+}
+
+/**
+ * Numbers the sidebar items hierarchically by their depth in the sidebar: top-level items are the chapters
+ * ("1", "2", ...), their children the sections ("1.1", "1.2", ...), and so on. Parts (whole sidebars) are not
+ * numbered; the chapters are numbered continuously across parts, so every number is unique in the document.
+ *
+ * @param items The sidebar items to number, after page selection (see `filterSidebarItems`).
+ * @returns {SidebarItem[]} A copy of the sidebar items with their `number` set.
+ */
+export function numberSidebarItems(items: SidebarItem[]): SidebarItem[] {
+    const numberLevel = (levelItems: SidebarItem[], prefix: string, firstNumber: number): SidebarItem[] =>
+        levelItems.map((item, index) => {
+            const number = `${prefix}${firstNumber + index}`;
+            return { ...item, number, children: numberLevel(item.children, `${number}.`, 1) };
+        });
+    
+    let chapterCount = 0;
+    return items.map(item => {
+        if (item.part) {
+            const children = numberLevel(item.children, '', chapterCount + 1);
+            chapterCount += children.length;
+            return { ...item, children };
+        }
+        return numberLevel([item], '', ++chapterCount)[0];
+    });
+}
+
+/**
+ * Whether a sidebar item links to a page of its own: a doc, or for a category, its linked doc or generated index.
+ * Categories without a link carry "#" (or an absolute URL ending in "/#") instead.
+ *
+ * @param item The sidebar item to check.
+ * @returns {boolean} True if the item has a page that can be extracted.
+ */
+export function hasOwnPage(item: SidebarItem): boolean {
+    return !!item.url && item.url !== '#' && !item.url.endsWith('/#');
+}
+
+/**
+ * Converts a glob pattern for page paths into a regular expression matching the whole path.
+ * `**` matches any number of characters including "/", `*` any number of characters within a path segment,
+ * and `?` a single character within a path segment. A trailing "/**" also matches the path before it,
+ * and a leading "**\/" also matches no directory, so 'docs/api/**' matches "docs/api" and "docs/api/intro".
+ *
+ * @param glob The glob pattern, e.g. 'docs/api/**'. A leading "/" is ignored.
+ * @returns {RegExp} The regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+    const pattern = glob.trim().replace(/^\/+/, '').replace(/\/+$/, '');
+    let regex = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (pattern.startsWith('**/', i)) {
+            regex += '(?:.*/)?';
+            i += 2;
+        } else if (pattern.startsWith('/**', i) && i + 3 === pattern.length) {
+            regex += '(?:/.*)?';
+            i += 2;
+        } else if (pattern.startsWith('**', i)) {
+            regex += '.*';
+            i += 1;
+        } else if (char === '*') {
+            regex += '[^/]*';
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else {
+            regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Selects the pages of the sidebar to export. A page is exported if its path matches one of the `include` patterns
+ * (if any) and none of the `exclude` patterns, and if it lies within one of the `categories` (if any) and none of
+ * the `excludeCategories`. Categories are kept as long as any of their pages is exported; a category whose own
+ * page is left out keeps its place in the structure without a page. Pages that are not exported are not part of
+ * the TOC and the outline, and links to them are kept as links to the live site.
+ *
+ * Paths are matched without their leading slash and trailing slash, query and hash, e.g. "docs/api/intro".
+ *
+ * @param items The sidebar items to filter, see `buildSidebarParts`.
+ * @param filter The selection criteria.
+ * @returns {SidebarItem[]} The filtered copy of the sidebar items.
+ */
+export function filterSidebarItems(items: SidebarItem[], filter: SidebarFilter): SidebarItem[] {
+    const toRegExps = (globs?: string[]) => (globs || []).filter(it => it.trim() !== '').map(globToRegExp);
+    const includes = toRegExps(filter.include);
+    const excludes = toRegExps(filter.exclude);
+    const toTitles = (titles?: string[]) => (titles || []).map(it => it.trim().toLowerCase()).filter(it => it !== '');
+    const categories = toTitles(filter.categories);
+    const excludedCategories = toTitles(filter.excludeCategories);
+    if (includes.length === 0 && excludes.length === 0 && categories.length === 0 && excludedCategories.length === 0) {
+        return items;
+    }
+    
+    const isPathSelected = (item: SidebarItem) => {
+        const path = item.path.replace(/[?#].*$/, '').replace(/^\/+|\/+$/g, '');
+        return (includes.length === 0 || includes.some(it => it.test(path))) && !excludes.some(it => it.test(path));
+    };
+    
+    let excludedPageCount = 0;
+    const filterLevel = (levelItems: SidebarItem[], inSelectedCategory: boolean): SidebarItem[] => {
+        const result: SidebarItem[] = [];
+        for (const item of levelItems) {
+            const title = item.title.trim().toLowerCase();
+            if (excludedCategories.includes(title)) {
+                excludedPageCount += countPages(item);
+                continue;
+            }
+            const selected = inSelectedCategory || categories.includes(title);
+            const children = filterLevel(item.children, selected);
+            const pageSelected = hasOwnPage(item) && selected && isPathSelected(item);
+            if (hasOwnPage(item) && !pageSelected) {
+                excludedPageCount++;
+            }
+            if (pageSelected || children.length > 0) {
+                result.push({ ...item, url: pageSelected ? item.url : '#', children });
+            } else if (item.children.length > 0 && !hasOwnPage(item)) {
+                console.log(`[Stage 2/4 - Data Collection] Leaving out category "${item.title}": none of its pages is selected.`);
+            }
+        }
+        return result;
+    };
+    const countPages = (item: SidebarItem): number => (hasOwnPage(item) ? 1 : 0) + item.children.reduce((sum, child) => sum + countPages(child), 0);
+    
+    const filtered = filterLevel(items, categories.length === 0);
+    console.log(`[Stage 2/4 - Data Collection] Page selection left out ${excludedPageCount} page(s); excluded pages are linked to the live site.`);
+    return filtered;
+}
+
+/**
+ * Logs a summary of the pages that could not be extracted, one line per page
+ * with its title, URL and the last error.
+ *
+ * @param failedPages The pages whose `error` is set.
+ */
+export function logFailedPagesSummary(failedPages: PageDetails[]): void {
+    console.error(`[Summary] ${failedPages.length} page(s) could not be extracted:`);
+    for (const failedPage of failedPages) {
+        console.error(`[Summary]   - "${failedPage.title}" (URL: ${failedPage.url}): ${failedPage.error}`);
+    }
+}
+
+/**
+ * Logs a summary of the pages whose client-rendered content did not finish rendering in time,
+ * one line per page with its title, URL and the components that were still pending.
+ *
+ * @param timedOutPages The pages whose `renderTimeouts` is set.
+ */
+export function logTimedOutPagesSummary(timedOutPages: PageDetails[]): void {
+    console.warn(`[Summary] ${timedOutPages.length} page(s) were captured before all of their content had rendered:`);
+    for (const timedOutPage of timedOutPages) {
+        console.warn(`[Summary]   - "${timedOutPage.title}" (URL: ${timedOutPage.url}): ${timedOutPage.renderTimeouts.join(', ')}`);
+    }
+}
@@ -48,6 +48,25 @@ export async function replaceBodyInnerHtml(innerHtml: string) {
     document.body.innerHTML = innerHtml;
 }
 
+/**
+ * Replaces an element of the current document with new HTML.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ * It is used to re-render a single generated section (e.g. the table of contents) without
+ * re-injecting and re-processing the whole document.
+ *
+ * @param selector The CSS selector of the element to replace.
+ * @param outerHtml The HTML that replaces the element, including the element itself.
+ * @returns {Promise<void>} A Promise that resolves once the element has been replaced.
+ * If no element matches the selector, the document is left unchanged.
+ */
+export async function replaceElementOuterHtml(selector: string, outerHtml: string) {
+    const element = document.querySelector(selector);
+    if (element) {
+        element.outerHTML = outerHtml;
+    } else {
+        console.warn(`[replaceElementOuterHtml] Element with selector "${selector}" not found.`);
+    }
+}
 
 /**
  * Extracts a hierarchical structure of sidebar items from a Docusaurus documentation page's DOM.
@@ -136,6 +155,277 @@ export async function extractDocusaurusSidebarItems() {
     return parseListItems(Array.from(topLevelListItems));
 }
 
+/**
+ * Extracts the entries of the Docusaurus navbar's version and locale dropdowns.
+ * This function is designed to be executed within the browser context (e.g., via `page.evaluate()`).
+ *
+ * - The locale dropdown is recognized by its links carrying a `lang` attribute (Docusaurus renders
+ *   the `htmlLang` of every locale there). Its links point to the current page in each locale.
+ * - The version dropdown is recognized as the dropdown whose active entry (`dropdown__link--active`)
+ *   points to the current page. Its links point to the current document in each version.
+ *
+ * Entries after a dropdown separator (e.g. "All versions" added via `dropdownItemsAfter`) are ignored,
+ * as they do not point to documentation. The current version and locale are returned as well,
+ * taken from the active version entry and the `<html lang>` attribute.
+ *
+ * @returns {Promise<Object>} A Promise that resolves to an object with the `versions` and `locales`
+ * entries (each with `name`, `label` and absolute `url`), and the `currentVersion` and `currentLocale` names.
+ * The arrays are empty if the site has no such dropdown.
+ */
+export async function extractNavbarDropdowns(): Promise<{
+    versions: { name: string; label: string; url: string }[];
+    locales: { name: string; label: string; url: string }[];
+    currentVersion: string;
+    currentLocale: string;
+}> {
+    const normalizePath = (path: string) => path.replace(/\/+$/, '');
+    const currentPath = normalizePath(location.pathname);
+    
+    /**
+     * Collects the links of a dropdown menu up to the first separator.
+     */
+    const collectLinks = (dropdown: Element): HTMLAnchorElement[] => {
+        const links: HTMLAnchorElement[] = [];
+        for (const li of Array.from(dropdown.querySelectorAll(':scope > ul.dropdown__menu > li'))) {
+            if (li.querySelector('hr')) {
+                break;
+            }
+            const a = li.querySelector('a.dropdown__link') as HTMLAnchorElement | null;
+            if (a && a.href) {
+                links.push(a);
+            }
+        }
+        return links;
+    };
+    
+    let versions: { name: string; label: string; url: string }[] = [];
+    let locales: { name: string; label: string; url: string }[] = [];
+    let currentVersion = '';
+    
+    // Only the desktop navbar is inspected; the mobile sidebar renders the same dropdowns again.
+    for (const dropdown of Array.from(document.querySelectorAll('nav.navbar .navbar__items .navbar__item.dropdown'))) {
+        const links = collectLinks(dropdown);
+        if (links.length === 0) {
+            continue;
+        }
+        
+        if (locales.length === 0 && links.every(it => it.hasAttribute('lang'))) {
+            locales = links.map(it => ({
+                name: it.getAttribute('lang') || '',
+                label: (it.textContent || '').trim(),
+                url: it.href,
+            }));
+            continue;
+        }
+        
+        const activeLink = links.find(it => it.classList.contains('dropdown__link--active'));
+        if (versions.length === 0 && activeLink && normalizePath(new URL(activeLink.href).pathname) === currentPath) {
+            versions = links.map(it => ({
+                name: (it.textContent || '').trim(),
+                label: (it.textContent || '').trim(),
+                url: it.href,
+            }));
+            currentVersion = (activeLink.textContent || '').trim();
+        }
+    }
+    
+    console.log(`[extractNavbarDropdowns] Found ${versions.length} versions and ${locales.length} locales.`);
+    return {
+        versions,
+        locales,
+        currentVersion,
+        currentLocale: document.documentElement.lang || '',
+    };
+}
+
+/**
+ * Extracts the top-level links of the Docusaurus navbar, e.g. "Guides", "API", "Tutorials".
+ * This function is designed to be executed within the browser context (e.g., via `page.evaluate()`).
+ * Dropdown entries, in-page anchors and links to other sites are left out, as they cannot
+ * point to a docs sidebar of this site.
+ *
+ * @returns {Promise<Array<{ label: string, url: string }>>} A Promise that resolves to the navbar
+ * links in display order, with their visible label and absolute URL, without duplicates.
+ */
+export async function extractNavbarLinks(): Promise<{ label: string; url: string }[]> {
+    const links: { label: string; url: string }[] = [];
+    document.querySelectorAll('nav.navbar .navbar__items a.navbar__link').forEach(it => {
+        const a = it as HTMLAnchorElement;
+        const href = a.getAttribute('href') || '';
+        if (!href || href.startsWith('#') || a.origin !== location.origin) {
+            return;
+        }
+        const url = a.href.split('#')[0];
+        if (!links.some(link => link.url === url)) {
+            links.push({ label: (a.textContent || '').trim(), url });
+        }
+    });
+    console.log(`[extractNavbarLinks] Found ${links.length} navbar links.`);
+    return links;
+}
+
+/**
+ * Determines a title for the docs sidebar shown on the current page, used as the title of its part
+ * when several sidebars are exported into one document.
+ * This function is designed to be executed within the browser context (e.g., via `page.evaluate()`).
+ *
+ * @returns {Promise<string>} A Promise that resolves to the label of the active navbar link
+ * (e.g. "API"), or the site-independent part of the document title if no navbar link is active.
+ */
+export async function getSidebarTitle(): Promise<string> {
+    const activeLink = document.querySelector('nav.navbar .navbar__items a.navbar__link--active');
+    const activeLabel = activeLink && activeLink.textContent ? activeLink.textContent.trim() : '';
+    // Docusaurus titles pages as "<page title> | <site title>".
+    return activeLabel || document.title.split(' | ')[0].trim();
+}
+
+/**
+ * Extracts the site-wide details of a Docusaurus site, used for the document title and the generated cover page.
+ * This function is designed to be executed within the browser context (e.g., via `page.evaluate()`),
+ * preferably on the home page, whose meta description is the site's tagline (doc pages describe themselves).
+ *
+ * @returns {Promise<Object>} A Promise that resolves to an object containing:
+ * - `title`: The navbar title (e.g. "My Project"), or the site part of the document title if the navbar shows a logo only.
+ * - `description`: The content of the `<meta name="description">` tag, or an empty string.
+ * - `logoUrl`: The absolute URL of the navbar logo (the light theme variant), or an empty string.
+ * - `homeUrl`: The absolute URL the navbar brand links to, usually the home page, or an empty string.
+ * - `copyright`: The text of the footer copyright notice, or an empty string.
+ * - `author`: The content of the `<meta name="author">` tag, or an empty string.
+ * - `keywords`: The entries of the `<meta name="keywords">` tag, or an empty array.
+ */
+export async function extractSiteMetadata(): Promise<{
+    title: string;
+    description: string;
+    logoUrl: string;
+    homeUrl: string;
+    copyright: string;
+    author: string;
+    keywords: string[];
+}> {
+    const textOf = (selector: string) => (document.querySelector(selector)?.textContent || '').trim();
+    const metaContentOf = (name: string) => (document.querySelector(`meta[name="${name}"]`)?.getAttribute('content') || '').trim();
+    
+    // Docusaurus titles pages as "<page title> | <site title>".
+    const titleParts = document.title.split(' | ');
+    const title = textOf('nav.navbar .navbar__brand .navbar__title') || titleParts[titleParts.length - 1].trim();
+    
+    // Themed logos are rendered twice, once per color mode.
+    const logo = (document.querySelector('nav.navbar .navbar__logo img.themedComponent--light')
+        || document.querySelector('nav.navbar .navbar__logo img')) as HTMLImageElement | null;
+    const brandLink = document.querySelector('nav.navbar a.navbar__brand') as HTMLAnchorElement | null;
+    
+    return {
+        title,
+        description: metaContentOf('description'),
+        logoUrl: logo ? logo.src : '',
+        homeUrl: brandLink ? brandLink.href : '',
+        copyright: textOf('footer .footer__copyright'),
+        author: metaContentOf('author'),
+        keywords: metaContentOf('keywords').split(',').map(it => it.trim()).filter(it => !!it),
+    };
+}
+
+/**
+ * Determines a validator for each of the given page URLs from the HTTP headers of the page, a value that changes
+ * whenever the page changes. It is used to tell whether a page cached by an earlier run can be reused, see
+ * `openPageCache`. This function is designed to be executed within the browser context (e.g., via `page.evaluate()`),
+ * on a page of the same site, so that the requests carry the same cookies and headers as the pages themselves.
+ *
+ * A HEAD request is sent for every page, up to `concurrency` at a time, and the `ETag` header is used, or else the
+ * `Last-Modified` header. Requests that fail or take longer than `timeoutMs` leave the page without a validator.
+ *
+ * @param urls The absolute URLs of the pages.
+ * @param concurrency The maximum number of requests sent at the same time.
+ * @param timeoutMs The maximum time to wait for each response, in milliseconds.
+ * @returns {Promise<Object>} A Promise that resolves to the validator of each page URL that has one
+ * (e.g. "etag:\"abc\"" or "last-modified:Wed, 01 May 2024 10:00:00 GMT").
+ */
+export async function fetchPageHeaderValidators(urls: string[], concurrency: number, timeoutMs: number): Promise<{ [url: string]: string }> {
+    const validators: { [url: string]: string } = {};
+    let nextIndex = 0;
+    await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, async () => {
+        while (nextIndex < urls.length) {
+            const url = urls[nextIndex++];
+            try {
+                const response = await fetch(url, { method: 'HEAD', cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+                const etag = response.headers.get('etag');
+                const lastModified = response.headers.get('last-modified');
+                if (response.ok && (etag || lastModified)) {
+                    validators[url] = etag ? 'etag:' + etag : 'last-modified:' + lastModified;
+                }
+            } catch (e) {
+                // Without a validator, the page is simply not cached.
+            }
+        }
+    }));
+    console.log(`[fetchPageHeaderValidators] Found validators for ${Object.keys(validators).length} of ${urls.length} pages.`);
+    return validators;
+}
+
+/**
+ * Reads the `<lastmod>` dates of the site's sitemap, which Docusaurus writes from the last git commit of each
+ * document if the sitemap plugin's `lastmod` option is set. They serve as validators of the pages whose HTTP headers
+ * provide none, see `fetchPageHeaderValidators`.
+ * This function is designed to be executed within the browser context (e.g., via `page.evaluate()`).
+ *
+ * @param sitemapUrls The URLs the sitemap may be found at, in order of preference. The first one that can be loaded is used.
+ * @param timeoutMs The maximum time to wait for each sitemap, in milliseconds.
+ * @returns {Promise<Object>} A Promise that resolves to the `<lastmod>` date of every sitemap entry that has one,
+ * by the entry's URL (`<loc>`).
+ */
+export async function fetchSitemapLastModified(sitemapUrls: string[], timeoutMs: number): Promise<{ [url: string]: string }> {
+    for (const sitemapUrl of sitemapUrls) {
+        try {
+            const response = await fetch(sitemapUrl, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs) });
+            if (!response.ok) {
+                continue;
+            }
+            const lastModified: { [url: string]: string } = {};
+            const sitemap = new DOMParser().parseFromString(await response.text(), 'application/xml');
+            sitemap.querySelectorAll('url').forEach(entry => {
+                const loc = (entry.querySelector('loc')?.textContent || '').trim();
+                const lastmod = (entry.querySelector('lastmod')?.textContent || '').trim();
+                if (loc && lastmod) {
+                    lastModified[loc] = lastmod;
+                }
+            });
+            console.log(`[fetchSitemapLastModified] Found ${Object.keys(lastModified).length} dated entries in ${sitemapUrl}.`);
+            return lastModified;
+        } catch (e) {
+            // Try the next location.
+        }
+    }
+    return {};
+}
+
+/**
+ * Returns the language of the current document, as declared by the `<html lang>` attribute.
+ * This function is designed to be executed within the browser context (e.g., via `page.evaluate()`).
+ *
+ * @returns {Promise<string>} A Promise that resolves to the language tag (e.g. 'en', 'zh-Hans'),
+ * or an empty string if none is declared.
+ */
+export async function getDocumentLanguage(): Promise<string> {
+    return document.documentElement.lang || '';
+}
+
+/**
+ * Sets the language (and optionally the text direction) of the current document, which Chrome uses for
+ * hyphenation, quotation marks and font selection when printing, and for the text direction of the layout.
+ * This function is designed to be executed within the browser context (e.g., via `page.evaluate()`).
+ *
+ * @param language The language tag (e.g. 'en', 'ar').
+ * @param direction Optional. The text direction, 'ltr' or 'rtl'. Left unchanged if omitted.
+ * @returns {Promise<void>} A Promise that resolves once the attributes are set.
+ */
+export async function setDocumentLanguage(language: string, direction?: 'ltr' | 'rtl'): Promise<void> {
+    document.documentElement.lang = language;
+    if (direction) {
+        document.documentElement.dir = direction;
+    }
+    console.log(`[setDocumentLanguage] Document language set to "${language}"${direction ? `, direction "${direction}"` : ''}.`);
+}
+
 /**
  * Updates the `id` attribute of a specific HTML element in the DOM.
  * This function is designed to run within the browser's context via `page.evaluate()`.
@@ -191,41 +481,592 @@ export async function getElementOuterHtml(selector: string): Promise<string> {
 }
 
 
+/**
+ * Collects the headings inside a container element, e.g. the main content of a documentation page.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ * Only headings that carry an `id` attribute are returned, as they are the only ones that can be
+ * used as link or bookmark destinations. Docusaurus renders such an `id` for every markdown heading.
+ *
+ * @param selector The CSS selector of the container element to search in.
+ * @param tagNames The heading tag names to collect, e.g. `['h2', 'h3']`.
+ * @returns {Promise<Array<{ id: string, title: string, level: number }>>} A Promise that resolves
+ * to the headings in document order. If the container is not found, an empty array is returned.
+ */
+export async function extractHeadings(selector: string, tagNames: string[]): Promise<{ id: string; title: string; level: number }[]> {
+    const container = document.querySelector(selector);
+    if (!container || tagNames.length === 0) {
+        return [];
+    }
+    
+    const headings: { id: string; title: string; level: number }[] = [];
+    container.querySelectorAll(tagNames.join(',')).forEach(heading => {
+        if (!heading.id) {
+            return;
+        }
+        // Clone the heading to strip the hash-link ("#") anchor Docusaurus appends to it,
+        // without touching the live DOM that is extracted afterwards.
+        const clone = heading.cloneNode(true) as HTMLElement;
+        clone.querySelectorAll('a.hash-link').forEach(it => it.remove());
+        const title = (clone.textContent || '').replace(/\u200b/g, '').trim();
+        headings.push({
+            id: heading.id,
+            title: title,
+            level: parseInt(heading.tagName.substring(1), 10),
+        });
+    });
+    return headings;
+}
+
+/**
+ * Numbers the headings of a documentation page hierarchically, continuing the section number of the page:
+ * the page title (h1) gets the page's number (e.g. "1.2"), and the h2, h3 and h4 headings continue it
+ * (e.g. "1.2.1", "1.2.1.1", "1.2.1.1.1"). Only headings with an `id` (i.e. Markdown headings) are numbered,
+ * the same ones that `extractHeadings` collects. The number is inserted as a `<span class="pdf-section-number">`
+ * at the start of the heading, so it also becomes part of the heading titles in the PDF outline.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * @param selector The CSS selector of the page content, e.g. '#some-page-id'.
+ * @param pageNumber The section number of the page, e.g. "1.2".
+ * @param numberSubHeadings Whether to number the h2-h4 headings as well. Category pages only number their title,
+ * as the numbers below theirs belong to the category's entries.
+ * @returns {Promise<Array<{ anchor: string, number: string, title: string }>>} A Promise that resolves to the
+ * numbered h2-h4 headings, in document order.
+ */
+export async function numberHeadings(selector: string, pageNumber: string, numberSubHeadings: boolean): Promise<{ anchor: string; number: string; title: string }[]> {
+    const container = document.querySelector(selector);
+    if (!container) {
+        return [];
+    }
+    const prefixNumber = (heading: Element, number: string) => {
+        const span = document.createElement('span');
+        span.className = 'pdf-section-number';
+        span.textContent = number;
+        heading.insertBefore(document.createTextNode(' '), heading.firstChild);
+        heading.insertBefore(span, heading.firstChild);
+    };
+    const headingTitle = (heading: Element) => {
+        const clone = heading.cloneNode(true) as HTMLElement;
+        clone.querySelectorAll('a.hash-link').forEach(it => it.remove());
+        return (clone.textContent || '').replace(/\u200b/g, '').trim();
+    };
+    
+    const title = container.querySelector('h1');
+    if (title) {
+        prefixNumber(title, pageNumber);
+    }
+    if (!numberSubHeadings) {
+        return [];
+    }
+    
+    // counters[0] counts the h2 headings, counters[1] the h3 headings below the current h2, and so on.
+    const counters = [0, 0, 0];
+    const numbered: { anchor: string; number: string; title: string }[] = [];
+    container.querySelectorAll('h2, h3, h4').forEach(heading => {
+        if (!heading.id) {
+            return;
+        }
+        const depth = parseInt(heading.tagName.substring(1), 10) - 2;
+        counters[depth]++;
+        counters.fill(0, depth + 1);
+        const number = [pageNumber, ...counters.slice(0, depth + 1)].join('.');
+        numbered.push({ anchor: heading.id, number, title: headingTitle(heading) });
+        prefixNumber(heading, number);
+    });
+    console.log(`[numberHeadings] Numbered ${numbered.length} headings below section ${pageNumber}.`);
+    return numbered;
+}
+
+/**
+ * Adds section numbers to the text of cross-reference links in the merged document, i.e. links that point to a
+ * numbered page, category or heading after `rewriteLinks`. A link whose text is the title of its target gets the
+ * number in front ("1.2 Installation"); any other link text gets it appended ("the install guide (1.2)").
+ * Links in the TOC, in headings and links without text (e.g. around images) are left as they are.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * @param numberedAnchors The numbered anchors of the merged document, as `[anchor, number, title]` tuples.
+ * @returns {Promise<number>} A Promise that resolves to the number of updated links.
+ */
+export async function numberCrossReferences(numberedAnchors: [string, string, string][]): Promise<number> {
+    const anchors = new Map(numberedAnchors.map(([anchor, number, title]) => [anchor, { number, title }]));
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+    /**
+     * Decodes a percent-encoded fragment, falling back to the raw value for malformed input (e.g. "#sale--50%-off").
+     */
+    const safeDecode = (value: string): string => {
+        try {
+            return decodeURIComponent(value);
+        } catch (e) {
+            return value;
+        }
+    };
+    let updatedCount = 0;
+    
+    document.querySelectorAll<HTMLAnchorElement>('a[href^="#"]').forEach(link => {
+        if (link.closest('.docusaurus-toc-body, .docusaurus-pdf-anchor-links, h1, h2, h3, h4, h5, h6')) {
+            return;
+        }
+        const target = anchors.get(safeDecode(link.getAttribute('href')!.substring(1)));
+        const text = (link.textContent || '').trim();
+        if (!target || !text || link.querySelector('img, svg')) {
+            return;
+        }
+        if (normalize(text) === normalize(target.title)) {
+            link.insertBefore(document.createTextNode(`${target.number} `), link.firstChild);
+        } else if (!text.includes(target.number)) {
+            link.appendChild(document.createTextNode(` (${target.number})`));
+        }
+        updatedCount++;
+    });
+    console.log(`[numberCrossReferences] Added section numbers to ${updatedCount} cross-reference links.`);
+    return updatedCount;
+}
+
+/**
+ * Rewrites the `href` attribute of every link inside a container element to its absolute URL.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`
+ * while the original documentation page is still open.
+ *
+ * Relative links (e.g. `../install`, `./install.md`, `#overview`) can only be resolved correctly
+ * against the URL of the page they were written on. Once the content is merged into a single
+ * document, that context is lost, so links are made absolute before the HTML is extracted.
+ *
+ * @param selector The CSS selector of the container element whose links should be rewritten.
+ * @returns {Promise<void>} A Promise that resolves once all links have been rewritten.
+ */
+export async function absolutizeLinks(selector: string): Promise<void> {
+    const container = document.querySelector(selector);
+    if (!container) {
+        console.warn(`[absolutizeLinks] Element with selector "${selector}" not found.`);
+        return;
+    }
+    container.querySelectorAll('a[href]').forEach(it => {
+        const element = it as HTMLAnchorElement;
+        // `element.href` is the URL resolved by the browser against the page's own location.
+        if (element.href && !element.href.startsWith('javascript:')) {
+            element.setAttribute('href', element.href);
+        }
+    });
+}
+
+/**
+ * Prefixes the `id` of every element inside a container element with a namespace.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * When multiple pages are merged into one document, their heading IDs collide (e.g. two pages
+ * both containing `#overview`). Prefixing every ID with the page's unique ID (`<pageId>--<id>`)
+ * keeps them unique. Attributes that reference IDs (`for`, `aria-labelledby`, `aria-describedby`,
+ * `aria-controls`) are updated accordingly. Elements inside inline SVGs are left untouched,
+ * as their IDs are referenced from SVG attributes like `fill="url(#gradient)"`.
+ *
+ * @param selector The CSS selector of the container element, e.g. the page's main content.
+ * The container's own ID is left unchanged.
+ * @param namespace The prefix to apply, typically the page's `PageDetails.id`.
+ * @returns {Promise<void>} A Promise that resolves once all IDs have been prefixed.
+ */
+export async function namespaceElementIds(selector: string, namespace: string): Promise<void> {
+    const container = document.querySelector(selector);
+    if (!container) {
+        console.warn(`[namespaceElementIds] Element with selector "${selector}" not found.`);
+        return;
+    }
+    
+    const elements = Array.from(container.querySelectorAll('[id]')).filter(it => !it.closest('svg'));
+    elements.forEach(it => {
+        it.id = `${namespace}--${it.id}`;
+    });
+    
+    // Keep ID references between elements (labels, tabs, tooltips, ...) working.
+    for (const attribute of ['for', 'aria-labelledby', 'aria-describedby', 'aria-controls']) {
+        container.querySelectorAll(`[${attribute}]`).forEach(it => {
+            const references = (it.getAttribute(attribute) || '').split(/\s+/).filter(ref => !!ref);
+            it.setAttribute(attribute, references.map(ref => `${namespace}--${ref}`).join(' '));
+        });
+    }
+    console.log(`[namespaceElementIds] Prefixed ${elements.length} element IDs with "${namespace}--".`);
+}
+
 /**
  * Rewrites the `href` attributes of internal links within the current document's DOM.
  * This function is designed to be executed within the browser's context via `page.evaluate()`.
  * It's particularly useful when merging multiple HTML pages into a single PDF,
- * as it converts original relative/absolute URLs (e.g., `/docs/my-page`) into
- * anchor links (e.g., `#my-page-id`) that point to elements within the merged document.
+ * as it converts links to exported pages (e.g., `https://site/docs/my-page#usage`) into
+ * anchor links (e.g., `#my-page-id--usage`) that point to elements within the merged document.
+ *
+ * Links are compared by their normalized URL: origin and path, ignoring trailing slashes,
+ * `index.html`, `.html`, `.md` and `.mdx` suffixes and query strings. A fragment is resolved to the
+ * namespaced heading ID of the target page (see `namespaceElementIds`). Links that point outside the
+ * exported set of pages keep their absolute URL and are marked as external
+ * (`rel="external"` and the `pdf-external-link` class). Links that are already in-document anchors
+ * (`#...`), as generated for the TOC, are left unchanged.
  *
- * @param pathToAnchors An array of tuples, where each tuple contains:
- * - `string`: The original path or href of a link (e.g., '/docs/introduction').
+ * @param urlToAnchors An array of tuples, where each tuple contains:
+ * - `string`: The absolute URL of an exported page (e.g. 'https://site/docs/introduction').
  * - `string`: The corresponding target anchor ID within the merged document
  * (e.g., 'id-timestamp-random').
- * @returns {Promise<void>} A Promise that resolves when all matching links have been rewritten.
+ * @param publicUrlMapping Optional. A tuple of the site URL the pages were loaded from and the public URL of the site
+ * (e.g. `['http://127.0.0.1:45123/', 'https://example.com/']`). External links below the first are moved to the second,
+ * so that links into a locally served build point at the deployed site.
+ * @returns {Promise<void>} A Promise that resolves when all links have been rewritten.
  */
-export async function rewriteLinks(pathToAnchors: [string, string][]): Promise<void> {
+export async function rewriteLinks(urlToAnchors: [string, string][], publicUrlMapping?: [string, string]): Promise<void> {
+    /**
+     * Decodes a percent-encoded URL part, falling back to the raw value for malformed input.
+     */
+    const safeDecode = (value: string): string => {
+        try {
+            return decodeURIComponent(value);
+        } catch (e) {
+            return value;
+        }
+    };
+    
+    /**
+     * Normalizes a URL for comparison: origin plus path, without trailing slashes
+     * and without `index.html`, `.html`, `.md` or `.mdx` suffixes.
+     */
+    const normalizeUrl = (url: URL): string => {
+        const pathname = safeDecode(url.pathname)
+            .replace(/\/index\.html?$/i, '/')
+            .replace(/\.(html?|mdx?)$/i, '')
+            .replace(/\/+$/, '');
+        return url.origin + pathname;
+    };
+    
+    const anchorsByUrl = new Map<string, string>();
+    for (const [url, anchor] of urlToAnchors) {
+        try {
+            anchorsByUrl.set(normalizeUrl(new URL(url, document.baseURI)), anchor);
+        } catch (e) {
+            console.warn(`[rewriteLinks] Skipped invalid page URL: ${url}`);
+        }
+    }
+    
     // Select all <a> elements that have an 'href' attribute.
-    // Cast to HTMLAnchorElement for proper TypeScript type inference and access to link-specific properties.
     const allLinks = document.querySelectorAll('a[href]');
+    let internalCount = 0;
+    let externalCount = 0;
     
     for (let i = 0; i < allLinks.length; i++) {
         const element = allLinks[i] as HTMLAnchorElement;
         // Get the value of the 'href' attribute.
-        let linkPath = element.getAttribute('href') || '';
+        const linkPath = element.getAttribute('href') || '';
         
-        // Iterate through the provided map of original paths to new anchor IDs.
-        for (let j = 0; j < pathToAnchors.length; j++) {
-            const [path, anchor] = pathToAnchors[j];
-            // If the current link's href matches an original path in the map,
-            // rewrite its href to point to the new anchor ID.
-            if (linkPath === path) {
-                element.setAttribute('href', '#' + anchor);
-                // Break inner loop as we found a match for this link
-                break;
+        // In-document anchors (e.g. the generated TOC) already point into the merged document.
+        if (linkPath.startsWith('#')) {
+            continue;
+        }
+        
+        let url: URL;
+        try {
+            url = new URL(linkPath, document.baseURI);
+        } catch (e) {
+            continue;
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:' && url.protocol !== 'file:') {
+            // mailto:, tel:, ... are neither pages nor anchors.
+            continue;
+        }
+        
+        const anchor = anchorsByUrl.get(normalizeUrl(url));
+        if (anchor) {
+            // Point at the page itself, or at the namespaced heading inside it.
+            const fragment = url.hash ? safeDecode(url.hash.substring(1)) : '';
+            element.setAttribute('href', '#' + (fragment ? `${anchor}--${fragment}` : anchor));
+            internalCount++;
+        } else {
+            // Not part of the exported pages: keep the absolute URL so it still works from the PDF.
+            const href = publicUrlMapping && url.href.startsWith(publicUrlMapping[0])
+                ? publicUrlMapping[1] + url.href.substring(publicUrlMapping[0].length)
+                : url.href;
+            element.setAttribute('href', href);
+            element.setAttribute('rel', 'external');
+            element.classList.add('pdf-external-link');
+            externalCount++;
+        }
+    }
+    console.log(`[rewriteLinks] Rewrote ${internalCount} internal links, marked ${externalCount} links as external.`);
+}
+
+/**
+ * Prepares the anchor links of one chunk of a document that is printed in chunks and merged afterwards.
+ * This function is designed to be executed within the browser's context via `page.evaluate()`, after `rewriteLinks`.
+ *
+ * Chrome only turns `#anchor` links into internal PDF links if the anchor is part of the printed document.
+ * Links to anchors in other chunks are therefore pointed at a placeholder URL (`<urlPrefix><anchor ID>`), which is
+ * turned into an internal link when the chunks are merged (see `mergePdfFiles`). As any element of the chunk may be
+ * the target of a link from another chunk, every element ID is linked from a hidden list of links, so Chrome writes
+ * a named destination for each of them. The list of a previous call is replaced, so the function can be called
+ * again after parts of the chunk (e.g. the TOC) have been re-rendered.
+ *
+ * @param urlPrefix The URL prefix of links to anchors in other chunks, e.g. "https://docs-to-pdf.invalid/anchor/".
+ * @returns {Promise<Object>} A Promise that resolves to the number of links pointed at other chunks (`crossChunkLinks`)
+ * and the number of element IDs linked (`anchors`).
+ */
+export async function linkAnchorsAcrossChunks(urlPrefix: string): Promise<{ crossChunkLinks: number; anchors: number }> {
+    document.querySelector('nav.docusaurus-pdf-chunk-anchor-links')?.remove();
+    
+    let crossChunkLinks = 0;
+    document.querySelectorAll('a[href^="#"]').forEach(it => {
+        let id = (it.getAttribute('href') || '').substring(1);
+        try {
+            id = decodeURIComponent(id);
+        } catch (e) {
+            // Keep malformed fragments as they are.
+        }
+        if (id && !document.getElementById(id)) {
+            it.setAttribute('href', urlPrefix + encodeURIComponent(id));
+            crossChunkLinks++;
+        }
+    });
+    
+    // Elements inside inline SVGs are left out, as their IDs are only referenced from within the SVG.
+    const ids = Array.from(document.body.querySelectorAll('[id]'))
+        .filter(it => !it.closest('svg'))
+        .map(it => it.id)
+        .filter(it => !!it);
+    const nav = document.createElement('nav');
+    nav.className = 'docusaurus-pdf-chunk-anchor-links';
+    nav.style.display = 'none';
+    ids.forEach(id => {
+        const link = document.createElement('a');
+        link.setAttribute('href', '#' + id);
+        nav.appendChild(link);
+    });
+    document.body.appendChild(nav);
+    console.log(`[linkAnchorsAcrossChunks] Pointed ${crossChunkLinks} links at other chunks, linked ${ids.length} anchors.`);
+    return { crossChunkLinks, anchors: ids.length };
+}
+
+declare global {
+    interface Window {
+        /**
+         * The MathJax instance of sites rendering formulas with MathJax, see `waitForRenderedContent`.
+         * `startup.promise` resolves once MathJax has finished typesetting the page.
+         */
+        MathJax?: { startup?: { promise?: Promise<unknown> } };
+    }
+}
+
+/**
+ * Waits until the client-rendered content of a page has finished rendering, so it is not captured as raw source
+ * or as blank boxes. This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * The following components are detected and waited for:
+ * - Mermaid diagrams (`@docusaurus/theme-mermaid`): until their container holds the rendered SVG.
+ * - Live code blocks (`@docusaurus/theme-live-codeblock`): until their preview shows the rendered result.
+ * - MathJax formulas: until MathJax has finished typesetting. (KaTeX is rendered at build time and only needs its fonts.)
+ * - Images: until they are loaded and decoded. Lazy loading is disabled first.
+ * - Web fonts: until they are loaded.
+ *
+ * @param selector A CSS selector for the content to inspect, e.g. '#some-page-id'. Falls back to the whole body.
+ * @param timeoutMs The maximum time to wait, in milliseconds.
+ * @returns {Promise<Object>} A Promise that resolves to an object containing:
+ * - `found`: The kinds of components found, with their counts (e.g. "Mermaid diagrams (2)").
+ * - `pending`: The kinds of components that had not finished rendering when the timeout expired, with their counts.
+ *   Empty if everything rendered in time.
+ */
+export async function waitForRenderedContent(selector: string, timeoutMs: number): Promise<{ found: string[]; pending: string[] }> {
+    const root = document.querySelector(selector) || document.body;
+    const deadline = Date.now() + timeoutMs;
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    /**
+     * Waits for a promise, but no longer than the remaining time.
+     */
+    const untilDeadline = (promise: Promise<unknown>) => Promise.race([promise.catch(() => undefined), sleep(Math.max(0, deadline - Date.now()))]);
+    
+    root.querySelectorAll('img[loading="lazy"]').forEach(it => it.removeAttribute('loading'));
+    
+    // Each check counts the components of its kind, and those of them that have not finished rendering.
+    const checks: { name: string; all: () => Element[]; isPending: (element: Element) => boolean }[] = [
+        {
+            name: 'Mermaid diagrams',
+            all: () => Array.from(root.querySelectorAll('.docusaurus-mermaid-container')),
+            isPending: it => !it.querySelector('svg'),
+        },
+        {
+            name: 'live code previews',
+            all: () => Array.from(root.querySelectorAll('[class*="playgroundPreview"]')),
+            isPending: it => it.childElementCount === 0 || /^Loading\.*$/i.test((it.textContent || '').trim()),
+        },
+        {
+            name: 'images',
+            all: () => Array.from(root.querySelectorAll('img')),
+            // Broken images are complete as well, they are not waited for.
+            isPending: it => !(it as HTMLImageElement).complete,
+        },
+        {
+            name: 'fonts',
+            all: () => document.fonts ? [document.documentElement] : [],
+            isPending: () => document.fonts.status === 'loading',
+        },
+    ];
+    const pendingOf = () => checks
+        .map(check => ({ name: check.name, count: check.all().filter(check.isPending).length }))
+        .filter(it => it.count > 0);
+    
+    const mathJaxStartup = window.MathJax?.startup?.promise;
+    if (mathJaxStartup) {
+        await untilDeadline(mathJaxStartup);
+    }
+    while (pendingOf().length > 0 && Date.now() < deadline) {
+        await sleep(100);
+    }
+    
+    // Loaded images are decoded before capturing, so they are printed rather than left blank.
+    const images = Array.from(root.querySelectorAll('img')) as HTMLImageElement[];
+    await untilDeadline(Promise.all(images.filter(it => it.complete && it.naturalWidth > 0).map(it => it.decode().catch(() => undefined))));
+    if (document.fonts) {
+        await untilDeadline(document.fonts.ready);
+    }
+    
+    const found = checks
+        .map(check => ({ name: check.name, count: check.all().length }))
+        .filter(it => it.count > 0 && it.name !== 'fonts')
+        .map(it => `${it.name} (${it.count})`);
+    if (root.querySelector('.katex')) {
+        found.push(`KaTeX formulas (${root.querySelectorAll('.katex').length})`);
+    }
+    const pending = pendingOf().map(it => `${it.name} (${it.count})`);
+    console.log(`[waitForRenderedContent] Found ${found.join(', ') || 'no client-rendered content'}.${pending.length > 0 ? ` Timed out waiting for: ${pending.join(', ')}.` : ''}`);
+    return { found, pending };
+}
+
+/**
+ * Converts interactive content into static content that survives capturing the HTML (`outerHTML`) and printing.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * - `<canvas>` drawings (e.g. charts) are replaced by images of their current content.
+ * - Editable code (e.g. the editor of live code blocks) is made read-only, and text areas overlaying highlighted
+ *   code are removed, so the code is printed once.
+ * - The current values of form fields are written to their attributes, as `outerHTML` only contains the initial values.
+ *
+ * @param selector A CSS selector for the content to convert, e.g. '#some-page-id'. Falls back to the whole body.
+ * @returns {Promise<number>} A Promise that resolves to the number of converted elements.
+ */
+export async function convertInteractiveContent(selector: string): Promise<number> {
+    const root = document.querySelector(selector) || document.body;
+    let converted = 0;
+    
+    root.querySelectorAll('canvas').forEach(canvas => {
+        try {
+            const image = document.createElement('img');
+            image.src = canvas.toDataURL('image/png');
+            image.width = canvas.width;
+            image.height = canvas.height;
+            image.setAttribute('style', canvas.getAttribute('style') || 'max-width: 100%;');
+            image.className = canvas.className;
+            canvas.replaceWith(image);
+            converted++;
+        } catch (e) {
+            // Canvases showing cross-origin content cannot be read and are printed as they are.
+        }
+    });
+    
+    root.querySelectorAll('[contenteditable]').forEach(it => {
+        it.removeAttribute('contenteditable');
+        converted++;
+    });
+    root.querySelectorAll('textarea').forEach(textarea => {
+        // Code editors overlay a transparent text area on the highlighted code.
+        if (textarea.parentElement && textarea.parentElement.querySelector('pre')) {
+            textarea.remove();
+        } else {
+            const pre = document.createElement('pre');
+            pre.textContent = textarea.value;
+            textarea.replaceWith(pre);
+        }
+        converted++;
+    });
+    
+    root.querySelectorAll('input').forEach(input => {
+        if (input.type === 'checkbox' || input.type === 'radio') {
+            input.toggleAttribute('checked', input.checked);
+        } else {
+            input.setAttribute('value', input.value);
+        }
+    });
+    root.querySelectorAll('select option').forEach(option => {
+        (option as HTMLOptionElement).toggleAttribute('selected', (option as HTMLOptionElement).selected);
+    });
+    
+    console.log(`[convertInteractiveContent] Converted ${converted} interactive elements to static content.`);
+    return converted;
+}
+
+/**
+ * Makes the content of Docusaurus `<Tabs>` printable. Only the selected tab panel is visible on the page
+ * (the others are `hidden`, or not rendered at all for lazy tabs), so printing the page as it is would leave
+ * out e.g. the Windows and macOS variants of installation steps.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * - `all`: Every tabs container is replaced by its panels, one after another, each in a box labeled with its tab title.
+ *   Panels that are not rendered (lazy tabs) are rendered by selecting their tab first.
+ * - `first`: The first tab of every tabs container is selected, regardless of the default or remembered selection.
+ *
+ * @param mode Which tab panels to keep, 'all' or 'first'.
+ * @returns {Promise<void>} A Promise that resolves after all tabs containers have been processed.
+ */
+export async function expandTabs(mode: 'first' | 'all'): Promise<void> {
+    // Inner tabs (nested in a tab panel) are processed before their outer tabs, so their panels are copied expanded.
+    const containers = Array.from(document.querySelectorAll('.tabs-container')).reverse();
+    console.log(`[expandTabs] Found ${containers.length} tabs containers, keeping ${mode === 'all' ? 'all tab panels' : 'the first tab panel'}.`);
+    
+    /**
+     * Gives React the chance to render the panel of a newly selected tab.
+     */
+    const waitForRender = () => new Promise(resolve => setTimeout(resolve, 50));
+    
+    for (const container of containers) {
+        const tabs = Array.from(container.querySelectorAll(':scope > ul[role="tablist"] > [role="tab"]')) as HTMLElement[];
+        if (tabs.length === 0) {
+            continue;
+        }
+        const getPanels = () => Array.from(container.querySelectorAll(':scope > div > [role="tabpanel"]')) as HTMLElement[];
+        
+        if (mode === 'first') {
+            if (tabs[0].getAttribute('aria-selected') !== 'true') {
+                tabs[0].click();
+                await waitForRender();
             }
+            continue;
         }
+        
+        const panels: { label: string; panel: HTMLElement | undefined }[] = [];
+        for (let i = 0; i < tabs.length; i++) {
+            let panel: HTMLElement | undefined;
+            if (getPanels().length === tabs.length) {
+                // All panels are rendered, the unselected ones are just hidden.
+                panel = getPanels()[i];
+            } else {
+                // Lazy tabs only render the selected panel.
+                tabs[i].click();
+                await waitForRender();
+                panel = getPanels().find(it => !it.hidden);
+            }
+            panels.push({ label: (tabs[i].textContent || '').trim(), panel: panel ? panel.cloneNode(true) as HTMLElement : undefined });
+        }
+        
+        const expanded = document.createElement('div');
+        expanded.className = 'pdf-tabs';
+        for (const { label, panel } of panels) {
+            const box = document.createElement('div');
+            box.className = 'pdf-tab-panel';
+            box.setAttribute('style', 'border: 1px solid var(--ifm-color-emphasis-300, #dadde1); border-radius: 6px; padding: 0.6rem 1rem 0.1rem 1rem; margin-bottom: 1rem;');
+            const labelElement = document.createElement('div');
+            labelElement.className = 'pdf-tab-label';
+            labelElement.setAttribute('style', 'font-size: 0.85em; font-weight: 700; color: var(--ifm-color-emphasis-700, #606770); margin-bottom: 0.5rem;');
+            labelElement.textContent = label;
+            box.appendChild(labelElement);
+            if (panel) {
+                panel.removeAttribute('hidden');
+                box.appendChild(panel);
+            }
+            expanded.appendChild(box);
+        }
+        container.replaceWith(expanded);
     }
+    
+    console.log('[expandTabs] Finished expanding tabs.');
 }
 
 /**
@@ -259,6 +1100,54 @@ export async function expandDetails() {
     console.log('[expandDetails] Finished attempting to expand all details elements.');
 }
 
+/**
+ * Converts the card grids of Docusaurus category pages (`<DocCardList />`, rendered on generated index pages and in
+ * category docs) into a plain list of links with their descriptions. The cards are laid out as a two-column grid of
+ * padded boxes with truncated descriptions on screen, which wastes a lot of paper and cuts off text in print.
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * @param selector A CSS selector for the content to convert, e.g. '#some-page-id'. Falls back to the whole body.
+ * @returns {Promise<number>} A Promise that resolves to the number of converted card lists.
+ */
+export async function convertDocCardLists(selector: string): Promise<number> {
+    const root = document.querySelector(selector) || document.body;
+    const cardSelector = 'a.card[class*="cardContainer"]';
+    let convertedCount = 0;
+
+    // A card list is a `section.row` of `article` columns, each holding one card link.
+    const cardLists = Array.from(root.querySelectorAll('section.row'))
+        .filter(section => section.querySelector(`:scope > article > ${cardSelector}`));
+    for (const cardList of cardLists) {
+        const list = document.createElement('ul');
+        list.className = 'pdf-card-list';
+        for (const card of Array.from(cardList.querySelectorAll<HTMLAnchorElement>(`:scope > article > ${cardSelector}`))) {
+            const heading = card.querySelector('h2');
+            const description = card.querySelector('p');
+            // The heading starts with an icon (an emoji or image), so prefer its title attribute, which holds the plain title.
+            const title = heading?.getAttribute('title') || heading?.textContent?.trim() || card.textContent?.trim() || '';
+            const descriptionText = description?.getAttribute('title') || description?.textContent?.trim() || '';
+
+            const item = document.createElement('li');
+            const link = document.createElement('a');
+            link.href = card.getAttribute('href') || card.href;
+            const strong = document.createElement('strong');
+            strong.textContent = title;
+            link.appendChild(strong);
+            item.appendChild(link);
+            if (descriptionText) {
+                item.appendChild(document.createTextNode(` - ${descriptionText}`));
+            }
+            list.appendChild(item);
+        }
+        cardList.replaceWith(list);
+        convertedCount++;
+    }
+    if (convertedCount > 0) {
+        console.log(`[convertDocCardLists] Converted ${convertedCount} card list(s) into plain lists.`);
+    }
+    return convertedCount;
+}
+
 /**
  * Removes specified HTML elements from the DOM based on a list of CSS selectors.
  * This function is intended to be executed within the browser's context via `page.evaluate()`.
@@ -268,17 +1157,36 @@ export async function expandDetails() {
  *
  * @param selectors An array of CSS selector strings. All elements matching any of these
  * selectors will be removed from the document.
+ * @param keepSelectors Optional. CSS selectors of elements that are never removed, even if they match one of
+ * `selectors` (e.g. to keep the pagination, which is removed by default).
  * @returns {Promise<void>} A Promise that resolves after all elements matching the
  * provided selectors have been removed.
  */
-export async function removeElements(selectors: string[]) {
+export async function removeElements(selectors: string[], keepSelectors: string[] = []) {
     console.log(`[removeElements] Starting to remove elements matching selectors: ${selectors.join(', ')}`);
+    const isKept = (element: Element) => keepSelectors.some(keepSelector => {
+        try {
+            return element.matches(keepSelector);
+        } catch (e) {
+            console.warn(`[removeElements] Invalid keep selector: "${keepSelector}".`);
+            return false;
+        }
+    });
     for (let selector of selectors) {
         // Select all elements matching the current selector.
-        const elementsToRemove = document.querySelectorAll(selector);
+        let elementsToRemove: NodeListOf<Element>;
+        try {
+            elementsToRemove = document.querySelectorAll(selector);
+        } catch (e) {
+            console.warn(`[removeElements] Invalid selector: "${selector}". Skipping it.`);
+            continue;
+        }
         let removedCount = 0;
         // Iterate over the found elements and remove each one from its parent.
         elementsToRemove.forEach(it => {
+            if (isKept(it)) {
+                return;
+            }
             it.remove(); // The .remove() method directly removes the element from the DOM.
             removedCount++;
         });
@@ -291,6 +1199,74 @@ export async function removeElements(selectors: string[]) {
     console.log('[removeElements] Element removal finished.');
 }
 
+/**
+ * Applies the print markers that authors can put into their documentation:
+ *
+ * - Elements with the class `print:hide` (e.g. `<div className="print:hide">` in MDX) or the attribute
+ *   `data-print="hide"` are removed.
+ * - Everything between the HTML comments `<!-- print:hide-start -->` and `<!-- print:hide-end -->` (with the same
+ *   parent element) is removed. Note that MDX removes its own comments (`{/* ... *\/}`) when compiling, so comment
+ *   markers only work where HTML comments reach the rendered page, e.g. in `.md` files parsed as CommonMark.
+ * - Elements with the class `print:only` or the attribute `data-print="only"` are shown, i.e. content the site
+ *   hides on screen (with the `hidden` attribute or an inline `display: none`) that only exists for the PDF.
+ *   Elements hidden by a stylesheet are shown by `PRINT_MARKER_CSS` in the merged document.
+ *
+ * This function is intended to be executed within the browser's context via `page.evaluate()`.
+ *
+ * @param selector A CSS selector for the content to process, e.g. '#some-page-id'. Falls back to the whole body.
+ * @returns {Promise<{hidden: number, shown: number}>} A Promise that resolves to the number of removed and shown elements.
+ */
+export async function applyPrintMarkers(selector: string): Promise<{ hidden: number, shown: number }> {
+    const root = document.querySelector(selector) || document.body;
+    let hidden = 0;
+    let shown = 0;
+
+    root.querySelectorAll('.print\\:hide, [data-print="hide"]').forEach(element => {
+        // Nested markers are removed together with their parent.
+        if (element.isConnected) {
+            element.remove();
+            hidden++;
+        }
+    });
+
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_COMMENT);
+    const startComments: Comment[] = [];
+    while (walker.nextNode()) {
+        if (walker.currentNode.nodeValue?.trim() === 'print:hide-start') {
+            startComments.push(walker.currentNode as Comment);
+        }
+    }
+    for (const startComment of startComments) {
+        if (!startComment.isConnected) {
+            continue;
+        }
+        // Remove the siblings up to the matching end comment, or up to the end of the parent if there is none.
+        let node: ChildNode | null = startComment.nextSibling;
+        while (node && !(node.nodeType === Node.COMMENT_NODE && node.nodeValue?.trim() === 'print:hide-end')) {
+            const next: ChildNode | null = node.nextSibling;
+            if (node.nodeType === Node.ELEMENT_NODE) {
+                hidden++;
+            }
+            node.remove();
+            node = next;
+        }
+        node?.remove();
+        startComment.remove();
+    }
+
+    root.querySelectorAll<HTMLElement>('.print\\:only, [data-print="only"]').forEach(element => {
+        element.removeAttribute('hidden');
+        element.removeAttribute('aria-hidden');
+        if (element.style.display === 'none') {
+            element.style.removeProperty('display');
+        }
+        shown++;
+    });
+
+    console.log(`[applyPrintMarkers] Removed ${hidden} print:hide elements, showing ${shown} print:only elements.`);
+    return { hidden, shown };
+}
+
 /**
  * Removes the 'loading="lazy"' attribute from all <img> elements in the document.
  * This forces browsers to load images immediately rather than lazily, which is
@@ -1,4 +1,280 @@
-import {SidebarItem} from "./type";
+import {CoverValues, HeaderFooterTokens, PrintPreset, SidebarItem} from "./type";
+
+/**
+ * The default page header of the PDF: an empty header, as documentation pages carry their own titles.
+ */
+export const DEFAULT_HEADER_TEMPLATE = `
+    <div style="
+        font-size: 10px;
+        width: 100%;
+        text-align: center;
+        margin: 0;
+        padding: 0;
+    ">
+    </div>
+`;
+
+/**
+ * The default page footer of the PDF: the centered current page number and total page count.
+ */
+export const DEFAULT_FOOTER_TEMPLATE = `
+    <div style="
+        font-size: 10px;
+        width: 100%;
+        text-align: center;
+        margin: 0;
+        padding: 0;
+    ">
+        <span class="pageNumber"></span> / <span class="totalPages"></span>
+    </div>
+`;
+
+/**
+ * Shows the content marked as print-only (see `applyPrintMarkers`) in the merged document, also where the site's
+ * stylesheets hide it on screen.
+ */
+export const PRINT_MARKER_CSS = `
+    .print\\:only, [data-print="only"] {
+        display: revert !important;
+    }
+`;
+
+/**
+ * Print rules shared by all presets: wrap long code lines instead of cutting them off at the page edge,
+ * repeat table headers on every page and keep table rows, figures and admonitions from being split across pages.
+ */
+const PRINT_PRESET_BASE_CSS = `
+    pre, pre code, .prism-code {
+        white-space: pre-wrap !important;
+        word-break: break-word !important;
+        overflow: visible !important;
+    }
+    table {
+        overflow: visible !important;
+    }
+    thead {
+        display: table-header-group;
+    }
+    tr, img, svg, figure, .docusaurus-mermaid-container, .theme-admonition {
+        break-inside: avoid;
+        page-break-inside: avoid;
+    }
+    h1, h2, h3, h4, h5, h6 {
+        break-after: avoid;
+        page-break-after: avoid;
+    }
+`;
+
+/**
+ * The stylesheets of the built-in print presets, see `PrintPreset`. Each is applied on top of the Docusaurus theme
+ * (and of `PRINT_PRESET_BASE_CSS`), before any user stylesheets, so user stylesheets can override them.
+ */
+export const PRINT_PRESETS: { [preset in PrintPreset]: string } = {
+    'compact': `
+        html {
+            font-size: 13px;
+        }
+        :root {
+            --ifm-line-height-base: 1.45;
+            --ifm-spacing-vertical: 0.6rem;
+            --ifm-paragraph-margin-bottom: 0.6rem;
+            --ifm-leading: 0.6rem;
+            --ifm-code-font-size: 85%;
+        }
+        h1 { font-size: 1.9rem; }
+        h2 { font-size: 1.5rem; }
+        h3 { font-size: 1.25rem; }
+        pre, .prism-code {
+            font-size: 0.8rem !important;
+            line-height: 1.35 !important;
+        }
+        table {
+            font-size: 0.85rem;
+        }
+        table th, table td {
+            padding: 0.3rem 0.5rem;
+        }
+        .theme-admonition {
+            padding: 0.5rem 0.75rem;
+            margin-bottom: 0.75rem;
+        }
+    `,
+    'serif': `
+        :root {
+            --ifm-font-family-base: Georgia, Cambria, "Times New Roman", Times, serif;
+            --ifm-heading-font-family: Georgia, Cambria, "Times New Roman", Times, serif;
+            --ifm-line-height-base: 1.6;
+        }
+        html {
+            font-size: 11.5pt;
+        }
+        .theme-doc-markdown p, .theme-doc-markdown li {
+            text-align: justify;
+            hyphens: auto;
+        }
+        .theme-admonition {
+            font-style: normal;
+        }
+    `,
+    'high-contrast': `
+        :root {
+            --ifm-color-content: #000000;
+            --ifm-color-content-secondary: #000000;
+            --ifm-heading-color: #000000;
+            --ifm-link-color: #000000;
+            --ifm-background-color: #ffffff;
+            --ifm-code-background: #ffffff;
+            --ifm-table-stripe-background: transparent;
+            --ifm-table-border-color: #000000;
+            --ifm-blockquote-color: #000000;
+            --ifm-blockquote-border-color: #000000;
+            --prism-background-color: #ffffff;
+        }
+        body, .theme-doc-markdown {
+            color: #000000 !important;
+            background: #ffffff !important;
+        }
+        a {
+            color: #000000 !important;
+            text-decoration: underline !important;
+        }
+        pre, .prism-code, code {
+            background: #ffffff !important;
+            border: 1px solid #000000 !important;
+            box-shadow: none !important;
+        }
+        pre code {
+            border: none !important;
+        }
+        .token {
+            color: #000000 !important;
+            font-style: normal !important;
+        }
+        .token.comment {
+            font-style: italic !important;
+        }
+        .token.keyword, .token.function, .token.tag {
+            font-weight: 700 !important;
+        }
+        table th, table td {
+            border: 1px solid #000000 !important;
+            background: #ffffff !important;
+        }
+        .theme-admonition {
+            background: #ffffff !important;
+            border: 2px solid #000000 !important;
+            color: #000000 !important;
+        }
+        .theme-admonition svg {
+            fill: #000000 !important;
+        }
+        .theme-admonition [class*="admonitionHeading"] {
+            color: #000000 !important;
+        }
+        .pdf-tab-panel {
+            border-color: #000000 !important;
+        }
+        .pdf-tab-label {
+            color: #000000 !important;
+        }
+    `,
+};
+
+/**
+ * Generates the stylesheet of a set of print presets: the shared print rules followed by the rules of each preset.
+ *
+ * @param presets The presets to combine, applied in order.
+ * @returns The CSS of the presets, or an empty string if no preset is given.
+ */
+export function generatePrintPresetCss(presets: PrintPreset[]): string {
+    if (presets.length === 0) {
+        return '';
+    }
+    return PRINT_PRESET_BASE_CSS + presets.map(preset => PRINT_PRESETS[preset]).join('\n');
+}
+
+/**
+ * Fills the custom tokens of a header or footer template: `{docTitle}`, `{chapter}`, `{version}` and `{buildDate}`.
+ * The values are HTML-escaped. Chrome's own tokens (elements with the classes `date`, `title`, `url`, `pageNumber`
+ * and `totalPages`) are left for Chrome to fill in when printing.
+ *
+ * @param template The header or footer HTML template.
+ * @param tokens The values of the custom tokens.
+ * @returns The template with all custom tokens replaced.
+ */
+export function fillHeaderFooterTemplate(template: string, tokens: HeaderFooterTokens): string {
+    return template.replace(/\{(docTitle|chapter|version|buildDate)}/g, (_, token: keyof HeaderFooterTokens) => escapeHtml(tokens[token]));
+}
+
+/**
+ * Formats a date for the `{buildDate}` token of header and footer templates, in the language of the documentation
+ * (e.g. "October 19, 2026" in English, "19. Oktober 2026" in German).
+ *
+ * @param date The date to format.
+ * @param language The language tag of the documentation (e.g. 'en', 'de'). Falls back to ISO format (2026-10-19)
+ * if empty or not supported.
+ * @returns The formatted date.
+ */
+export function formatBuildDate(date: Date, language: string): string {
+    if (language) {
+        try {
+            return date.toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' });
+        } catch (e) {
+            // Unsupported language tag, fall through to the ISO format.
+        }
+    }
+    return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Localized titles for the Table of Contents, keyed by primary language subtag.
+ */
+const TOC_TITLES: { [language: string]: string } = {
+    en: 'Table of Contents',
+    zh: '目录',
+    ja: '目次',
+    ko: '목차',
+    de: 'Inhaltsverzeichnis',
+    fr: 'Table des matières',
+    es: 'Índice',
+    pt: 'Índice',
+    it: 'Indice',
+    nl: 'Inhoudsopgave',
+    ru: 'Содержание',
+    pl: 'Spis treści',
+    tr: 'İçindekiler',
+    vi: 'Mục lục',
+};
+
+/**
+ * Returns the Table of Contents title in the language of the documentation.
+ *
+ * @param language A language tag as declared by `<html lang>` (e.g. 'en', 'zh-Hans', 'pt-BR').
+ * Only the primary subtag is used for the lookup.
+ * @returns The localized title, or the English title for unknown or missing languages.
+ */
+export function getLocalizedTocTitle(language: string): string {
+    const primaryLanguage = (language || '').toLowerCase().split('-')[0];
+    if (primaryLanguage === 'zh' && /-(hant|tw|hk|mo)\b/i.test(language)) {
+        return '目錄'; // Traditional Chinese
+    }
+    return TOC_TITLES[primaryLanguage] || TOC_TITLES.en;
+}
+
+/**
+ * The primary language subtags of languages written from right to left.
+ */
+const RTL_LANGUAGES = ['ar', 'arc', 'ckb', 'dv', 'fa', 'ha', 'he', 'iw', 'khw', 'ks', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+/**
+ * Determines the text direction of a language.
+ *
+ * @param language A language tag (e.g. 'en', 'ar-EG', 'zh-Hans').
+ * @returns The text direction, 'rtl' for languages written from right to left, otherwise 'ltr'.
+ */
+export function getLanguageDirection(language: string): 'ltr' | 'rtl' {
+    return RTL_LANGUAGES.includes((language || '').toLowerCase().split('-')[0]) ? 'rtl' : 'ltr';
+}
 
 /**
  * Generates an HTML string for a Table of Contents (TOC) based on a
@@ -14,11 +290,16 @@ import {SidebarItem} from "./type";
  * representing the structure of the documentation. Each item
  * should at least have `id`, `title`, and optionally `children`.
  * @param title The main title for the Table of Contents (e.g., "目录").
+ * @param pageNumbers Optional. A map from `SidebarItem.id` to the page number the item starts on.
+ * If provided, every entry is rendered with a dot leader and a right-aligned page number.
+ * Categories without a page of their own show the page number of their first descendant.
+ * Entries missing from the map keep an empty page number column, so a first render pass
+ * can be done with an empty map and yields the same layout as the final, numbered one.
  * @returns A string containing the full HTML for the Table of Contents,
  * designed to be inserted into a Puppeteer-rendered page.
  * If `sidebarItems` is empty, a message indicating no TOC is available is returned.
  */
-export function generateTocHtml(sidebarItems: SidebarItem[], title: string): string {
+export function generateTocHtml(sidebarItems: SidebarItem[], title: string, pageNumbers?: Map<string, number>): string {
     if (!sidebarItems || sidebarItems.length === 0) {
         return `
             <div class="docusaurus-toc-body" style="font-family: var(--ifm-font-family-base, -apple-system,BlinkMacSystemFont,Segoe UI,Roboto,Helvetica Neue,sans-serif); color: var(--ifm-font-color-base, #2e353b); line-height: 1.6; padding: 20px; page-break-after: always;">
@@ -30,6 +311,27 @@ export function generateTocHtml(sidebarItems: SidebarItem[], title: string): str
         `;
     }
     
+    /**
+     * Resolves the page number of a TOC item. Categories without an extracted page of their own
+     * fall back to the page number of their first descendant that has one.
+     *
+     * @param item The `SidebarItem` to resolve the page number for.
+     * @returns The one-based page number, or `undefined` if none of the item's pages were found.
+     */
+    const resolvePageNumber = (item: SidebarItem): number | undefined => {
+        const pageNumber = pageNumbers?.get(item.id);
+        if (pageNumber !== undefined) {
+            return pageNumber;
+        }
+        for (const child of item.children || []) {
+            const childPageNumber = resolvePageNumber(child);
+            if (childPageNumber !== undefined) {
+                return childPageNumber;
+            }
+        }
+        return undefined;
+    };
+    
     /**
      * Recursively renders the HTML for nested Table of Contents items.
      * Applies indentation and appropriate CSS classes based on the item's level and type.
@@ -47,14 +349,28 @@ export function generateTocHtml(sidebarItems: SidebarItem[], title: string): str
         
         items.forEach(item => {
             const hasChildren = item.children && item.children.length > 0;
-            // Assign class to differentiate between directories (with children) and documents (no children)
-            const itemClass = hasChildren ? 'toc-directory' : 'toc-document';
+            // Assign class to differentiate between directories (with children) and documents (no children),
+            // and to highlight the parts that group whole sidebars
+            const itemClass = (hasChildren ? 'toc-directory' : 'toc-document') + (item.part ? ' toc-part' : '');
             // Calculate left padding for indentation based on the current level
             const indentationStyle = `padding-left: ${level * 0.8}rem;`;
             
+            // The section number, when heading numbering is enabled
+            const numberPrefix = item.number ? `<span class="toc-item-number">${item.number}</span> ` : '';
+            
             html += `<li class="${itemClass}" style="${indentationStyle}">`;
             // Create the link to the item's ID, its styling is handled by the CSS classes
-            html += `<a href="#${item.id}">${item.title}</a>`;
+            if (pageNumbers) {
+                // Title, a dot leader filling the remaining width, and the right-aligned page number.
+                const pageNumber = resolvePageNumber(item);
+                html += `<a href="#${item.id}">`
+                    + `<span class="toc-item-title">${numberPrefix}${item.title}</span>`
+                    + `<span class="toc-leader"></span>`
+                    + `<span class="toc-page-number">${pageNumber !== undefined ? pageNumber : ''}</span>`
+                    + `</a>`;
+            } else {
+                html += `<a href="#${item.id}">${numberPrefix}${item.title}</a>`;
+            }
             
             // Recursively render children if they exist
             if (hasChildren) {
@@ -72,7 +388,7 @@ export function generateTocHtml(sidebarItems: SidebarItem[], title: string): str
     
     // Construct the final TOC HTML, including the embedded styling
     return `
-        <div class="docusaurus-toc-body" style="page-break-after: always;">
+        <div class="docusaurus-toc-body${pageNumbers ? ' toc-with-page-numbers' : ''}" style="page-break-after: always;">
             <style>
                 /* CSS variables defining Docusaurus-like theme colors and fonts */
                 :root {
@@ -166,6 +482,43 @@ export function generateTocHtml(sidebarItems: SidebarItem[], title: string): str
                     padding-left: 1.2rem; /* Matches the visual offset created by the icon for directory items */
                 }
 
+                /* Parts (whole sidebars such as "Guides" or "API") stand out from the categories below them */
+                .docusaurus-toc-body li.toc-part {
+                    margin-top: 1rem;
+                }
+                .docusaurus-toc-body li.toc-part > a {
+                    font-size: 1.2rem;
+                    font-weight: 700;
+                }
+
+                /* Page numbers: each link becomes a row of title, dot leader and page number */
+                .docusaurus-toc-body.toc-with-page-numbers li.toc-directory::before {
+                    float: left; /* Keeps the icon beside the link, which is a block-level flex row here */
+                    line-height: 1.9;
+                }
+                .docusaurus-toc-body.toc-with-page-numbers li > a {
+                    display: flex; /* Title, leader and page number on one line */
+                    align-items: baseline;
+                    overflow: hidden; /* Establishes a block formatting context next to the floated icon */
+                }
+                .docusaurus-toc-body.toc-with-page-numbers .toc-item-title {
+                    flex: 0 1 auto; /* Long titles may wrap, but never push the page number out */
+                }
+                .docusaurus-toc-body.toc-with-page-numbers .toc-leader {
+                    flex: 1 1 auto; /* Fills the space between title and page number */
+                    min-width: 1rem;
+                    margin: 0 0.3rem;
+                    border-bottom: 1px dotted var(--ifm-font-color-secondary, #999); /* The dot leader */
+                }
+                .docusaurus-toc-body.toc-with-page-numbers .toc-page-number {
+                    flex: 0 0 auto;
+                    min-width: 2.5rem; /* Fixed width, so the layout does not change once numbers are filled in */
+                    text-align: right;
+                    color: var(--ifm-font-color-base, #2e353b);
+                    font-weight: normal;
+                    font-variant-numeric: tabular-nums;
+                }
+
             </style>
             <h1 class="toc-title">${title}</h1>
             ${tocHtmlContent}
@@ -228,4 +581,250 @@ export function generateCoverHtml(
         "
       />
     </div>`;
-}
\ No newline at end of file
+}
+/**
+ * The built-in layout of the generated cover page: logo, title, subtitle and version in the upper part of the page,
+ * the optional cover image in the middle, and date, organization and legal notice at the bottom.
+ * Uses the template syntax of `renderTemplate` and the values of `CoverValues`.
+ */
+export const DEFAULT_COVER_TEMPLATE = `
+    <div style="
+        width: {{pageWidth}};
+        height: {{pageHeight}};
+        box-sizing: border-box;
+        padding: 30mm 25mm 20mm 25mm;
+        display: flex;
+        flex-direction: column;
+        background-color: #ffffff;
+        overflow: hidden;
+        page-break-after: always;
+    ">
+        {{#if logo}}
+        <img src="{{logo}}" alt="" style="max-width: 60mm; max-height: 30mm; object-fit: contain; align-self: flex-start; margin-bottom: 20mm;" />
+        {{/if}}
+        <h1 style="font-size: 32pt; line-height: 1.2; margin: 0 0 6mm 0;">{{title}}</h1>
+        {{#if subtitle}}
+        <p style="font-size: 15pt; line-height: 1.4; margin: 0 0 6mm 0; color: #555555;">{{subtitle}}</p>
+        {{/if}}
+        {{#if version}}
+        <p style="font-size: 12pt; margin: 0; color: #555555;">Version {{version}}</p>
+        {{/if}}
+        <div style="flex: 1; display: flex; align-items: center; justify-content: center; min-height: 0; padding: 10mm 0;">
+            {{#if image}}
+            <img src="{{image}}" alt="" style="max-width: 100%; max-height: 100%; object-fit: contain;" />
+            {{/if}}
+        </div>
+        <div style="font-size: 10pt; color: #555555; border-top: 1px solid #cccccc; padding-top: 4mm;">
+            <p style="margin: 0 0 1mm 0;">{{date}}</p>
+            {{#if organization}}
+            <p style="margin: 0 0 1mm 0; font-weight: 600;">{{organization}}</p>
+            {{/if}}
+            {{#if legalNotice}}
+            <p style="margin: 3mm 0 0 0; font-size: 8pt;">{{legalNotice}}</p>
+            {{/if}}
+        </div>
+    </div>
+`;
+
+/**
+ * Renders a template with a small, Handlebars-style syntax:
+ * - `{{name}}` inserts a value, HTML-escaped.
+ * - `{{{name}}}` inserts a value as it is, e.g. for values containing HTML.
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}` include a block depending on
+ *   whether a value is non-empty. `{{else}}` is optional; blocks can be nested.
+ *
+ * Unknown names render as empty strings.
+ *
+ * @param template The template.
+ * @param values The values to insert, by name.
+ * @returns The rendered template.
+ */
+export function renderTemplate(template: string, values: { [name: string]: string }): string {
+    // Resolve the innermost blocks first, until no block is left.
+    const blockPattern = /\{\{#(if|unless)\s+(\w+)\s*}}((?:(?!\{\{#(?:if|unless)\s)[\s\S])*?)\{\{\/\1}}/g;
+    let result = template;
+    let previous: string;
+    do {
+        previous = result;
+        result = result.replace(blockPattern, (_, kind: string, name: string, body: string) => {
+            const [thenPart, elsePart = ''] = body.split('{{else}}');
+            const isSet = !!values[name];
+            return (kind === 'if' ? isSet : !isSet) ? thenPart : elsePart;
+        });
+    } while (result !== previous);
+    
+    return result
+        .replace(/\{\{\{\s*(\w+)\s*}}}/g, (_, name: string) => values[name] || '')
+        .replace(/\{\{\s*(\w+)\s*}}/g, (_, name: string) => escapeHtml(values[name] || ''));
+}
+
+/**
+ * Generates the HTML string for a generated cover page from a template, see `DEFAULT_COVER_TEMPLATE`.
+ * The cover is printed without page margins, so a template should size its outer element to
+ * `{{pageWidth}}` x `{{pageHeight}}` and break the page after it (`page-break-after: always`).
+ *
+ * @param template The cover template, using the syntax of `renderTemplate`.
+ * @param values The values available in the template.
+ * @returns A string containing the HTML for the cover page.
+ */
+export function generateTemplatedCoverHtml(template: string, values: CoverValues): string {
+    return renderTemplate(template, { ...values });
+}
+
+/**
+ * Generates a hidden block of internal links pointing at the given anchor IDs.
+ *
+ * Chrome only writes a named destination into the PDF for elements that are the target of an
+ * internal link. Injecting these (invisible) links guarantees that every anchor needed for the
+ * PDF outline, e.g. page headings, gets a destination the outline can point to.
+ *
+ * @param anchors The anchor IDs that must be resolvable in the generated PDF.
+ * @returns A string containing an HTML `<nav>` element that is not displayed in the document.
+ */
+export function generateAnchorLinksHtml(anchors: string[]): string {
+    const links = anchors
+        .filter(it => !!it)
+        .map(it => `<a href="#${it}"></a>`)
+        .join('');
+    return `<nav class="docusaurus-pdf-anchor-links" style="display: none;">${links}</nav>`;
+}
+
+/**
+ * Generates the HTML for the body of a document of empty pages. A document whose header and footer differ between
+ * pages, or that is printed in chunks, gets them drawn on afterwards (see `overlayPdfPages`), printed from such a
+ * document with as many pages as the PDF, so that Chrome's `pageNumber` and `totalPages` count the pages of the whole
+ * document without laying out its content again.
+ *
+ * @param pageCount The number of pages.
+ * @returns A string containing one empty `<div>` per page, each but the last followed by a page break.
+ */
+export function generateBlankPagesHtml(pageCount: number): string {
+    const pages = Array.from({ length: pageCount }, () => '<div class="docusaurus-pdf-blank-page" style="height: 1px;"></div>').join('');
+    return `<style>.docusaurus-pdf-blank-page:not(:last-child) { break-after: page; }</style>${pages}`;
+}
+
+/**
+ * Generates the HTML string for a placeholder page that replaces a documentation page
+ * whose content could not be extracted. It names the missing document and its URL, so the gap
+ * is visible in the printed document instead of a chapter silently going missing.
+ *
+ * The placeholder carries the page's anchor ID, so links and TOC entries pointing at the
+ * missing page still resolve to this placeholder.
+ *
+ * @param sidebarItem The sidebar item of the page that could not be extracted.
+ * @param errorMessage The error that caused the extraction to fail.
+ * @returns A string containing the HTML for the placeholder page.
+ */
+export function generateFailedPageHtml(sidebarItem: SidebarItem, errorMessage: string): string {
+    return `
+    <div id="${sidebarItem.id}" class="docusaurus-pdf-failed-page" style="page-break-after: always;">
+      <h1>${escapeHtml(sidebarItem.title)}</h1>
+      <div style="
+        border: 2px dashed #d9534f;  /* Clearly marks the placeholder as an error */
+        border-radius: 8px;
+        padding: 16px 20px;
+        margin-top: 20px;
+        color: #2e353b;
+        background-color: #fdf3f3;
+      ">
+        <p style="font-weight: 700; margin-top: 0;">This page could not be exported.</p>
+        <p>Document: ${escapeHtml(sidebarItem.title)}</p>
+        <p>URL: ${escapeHtml(sidebarItem.url)}</p>
+        <p style="margin-bottom: 0; font-size: 0.85em; color: #666;">Error: ${escapeHtml(errorMessage)}</p>
+      </div>
+    </div>`;
+}
+
+/**
+ * Escapes the characters that have a special meaning in HTML, so that arbitrary text
+ * (e.g. error messages or URLs) can be embedded safely in generated HTML.
+ *
+ * @param text The text to escape.
+ * @returns The escaped text.
+ */
+export function escapeHtml(text: string): string {
+    return (text || '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Generates the HTML string for the title page of a part, i.e. a whole docs sidebar
+ * (e.g. "Guides", "API") when several sidebars are exported into one document.
+ * The page carries the part's anchor ID, so TOC entries and bookmarks can point to it.
+ *
+ * @param part The top-level `SidebarItem` representing the part.
+ * @param format An object specifying the dimensions of the paper format, used to center the title vertically
+ * within the printable area.
+ * @param marginMm The page margin in millimeters, subtracted from the page height.
+ * @returns A string containing the HTML for the part title page.
+ */
+export function generatePartTitleHtml(
+    part: SidebarItem,
+    format: { widthMm: number; heightMm: number },
+    marginMm: number,
+): string {
+    return `
+    <div id="${part.id}" class="docusaurus-pdf-part-title" style="
+      height: ${Math.max(format.heightMm - 2 * marginMm - 1, 0)}mm; /* Fills the printable area, minus 1mm against rounding overflow */
+      display: flex;                /* Uses Flexbox to center the title */
+      flex-direction: column;
+      justify-content: center;
+      align-items: center;
+      text-align: center;
+      box-sizing: border-box;
+      page-break-after: always;     /* The part's first page starts on a new page */
+    ">
+      <h1 style="
+        font-size: 2.8em;
+        font-weight: 700;
+        margin: 0;
+        padding-bottom: 16px;
+        border-bottom: 3px solid var(--ifm-color-primary, #25c2a0);
+      ">${escapeHtml(part.title)}</h1>
+    </div>`;
+}
+
+/**
+ * Generates the HTML for a section divider page, which stands in for a sidebar category that has no page of its own
+ * (neither a linked doc nor a generated index). The page shows the category title in the upper third of the
+ * printable area, followed by the titles of the category's entries, and carries the category's anchor ID,
+ * so TOC entries, bookmarks and chapter headers can point to it.
+ *
+ * @param category The `SidebarItem` representing the category.
+ * @param depth The nesting depth of the category in the sidebar (0 for top-level categories), which scales the title.
+ * @param format An object specifying the dimensions of the paper format, used to size the page.
+ * @param marginMm The page margin in millimeters, subtracted from the page height.
+ * @returns A string containing the HTML for the section divider page.
+ */
+export function generateSectionDividerHtml(
+    category: SidebarItem,
+    depth: number,
+    format: { widthMm: number; heightMm: number },
+    marginMm: number,
+): string {
+    const entries = category.children
+        .map(child => `<li style="margin: 6px 0;">${escapeHtml(child.title)}</li>`)
+        .join('');
+    return `
+    <div id="${category.id}" class="docusaurus-pdf-section-divider" style="
+      height: ${Math.max(format.heightMm - 2 * marginMm - 1, 0)}mm; /* Fills the printable area, minus 1mm against rounding overflow */
+      box-sizing: border-box;
+      padding-top: ${Math.round((format.heightMm - 2 * marginMm) / 3)}mm;
+      page-break-after: always;     /* The category's first entry starts on a new page */
+    ">
+      <h1 style="
+        font-size: ${Math.max(2.4 - 0.3 * depth, 1.6).toFixed(1)}em;
+        font-weight: 700;
+        margin: 0 0 24px 0;
+        padding-bottom: 12px;
+        border-bottom: 2px solid var(--ifm-color-primary, #25c2a0);
+      ">${category.number ? `${category.number} ` : ''}${escapeHtml(category.title)}</h1>
+      <ul style="list-style: none; padding: 0; margin: 0; font-size: 1.1em; color: var(--ifm-color-content-secondary, #525860);">
+        ${entries}
+      </ul>
+    </div>`;
+}
@@ -0,0 +1,36 @@
+/**
+ * The programmatic Node API of docusaurus-docs-to-pdf.
+ *
+ * Importing this module has no side effects: unlike the command-line entry point (`main.ts`),
+ * it does not parse arguments or start a conversion. Use `convert` to run a conversion from
+ * build scripts:
+ *
+ * @example
+ * import { convert } from 'docusaurus-docs-to-pdf';
+ *
+ * const result = await convert({
+ *     docsUrl: 'http://localhost:3000/docs/intro',
+ *     pdfPath: 'output/docs.pdf',
+ *     hooks: {
+ *         onPageProcessed: page => console.log(`Processed ${page.title}`),
+ *     },
+ * });
+ */
+export {
+    convert,
+    normalizePdfGenerationOptions,
+    DEFAULT_PDF_GENERATION_OPTIONS,
+    ConversionHooks,
+    LoginScript,
+    ConvertOptions,
+    PdfGenerationOptions,
+} from './converter';
+export {
+    findConfigFile,
+    loadConfigFile,
+    resolveConfigOutputs,
+    ConfigOptions,
+    ConfigOutput,
+    DocsToPdfConfig,
+} from './config';
+export * from './type';
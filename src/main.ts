@@ -1,493 +1,104 @@
 #!/usr/bin/env node
 
-import {Browser, Page} from 'puppeteer'; // 导入 Browser 类型
-import {
-    expandDetails,
-    expandDocusaurusSidebar,
-    extractDocusaurusSidebarItems,
-    getElementOuterHtml,
-    removeElements, removeLazyLoading,
-    replaceBodyInnerHtml,
-    rewriteLinks,
-    updateElementId
-} from './docusaurus';
-import {PageDetails, PAPER_FORMATS, PaperFormat, SidebarItem} from "./type";
-import {generateCoverHtml, generateTocHtml} from "./html";
-import {launchBrowser, requestForImage} from "./browser";
 import consoleStamp from "console-stamp";
-import path from "node:path";
-import * as fs from "node:fs";
-
 import { Command } from 'commander';
-import * as os from "node:os";
+import {
+    convert,
+    ConvertOptions,
+    DEFAULT_PDF_GENERATION_OPTIONS,
+    PdfGenerationOptions
+} from "./converter";
+import {CONFIG_FILE_NAMES, ConfigOutput, findConfigFile, isOptionName, loadConfigFile, resolveConfigOutputs} from "./config";
+import {BasicAuthCredentials} from "./type";
 
 /**
- * Builds details for multiple Docusaurus documentation pages concurrently.
- * This function orchestrates a concurrency pool to efficiently visit, process,
- * and extract HTML content from each page, ensuring the final results are
- * ordered according to the original sidebar structure.
- *
- * It includes nested helper functions for flattening the sidebar and processing
- * individual pages, keeping all related logic self-contained.
+ * Parses a comma-separated command-line value into a list of trimmed, non-empty entries.
  *
- * @param browser The Puppeteer `Browser` instance from which new pages (tabs) will be created.
- * @param sidebarItems A nested array of `SidebarItem` objects representing the
- * hierarchical structure of the Docusaurus documentation.
- * @param maxConcurrency The maximum number of browser pages (workers) to open and
- * process simultaneously. A higher number might speed up processing but could
- * increase resource consumption. (e.g., 5-10 for stability; up to CPU core count for max throughput).
- * @returns {Promise<PageDetails[]>} A Promise that resolves to an array of `PageDetails` objects.
- * Each object contains the extracted HTML content and metadata
- * for a documentation page, ordered as per the `sidebarItems` input.
+ * @param value The raw option value, e.g. "2.x, Next".
+ * @returns {string[] | undefined} The entries, or undefined if the option was not given.
  */
-export async function buildPageDetailsParallel(
-    browser: Browser,
-    sidebarItems: SidebarItem[],
-    maxConcurrency: number
-): Promise<PageDetails[]> {
-    
-    /**
-     * Helper function: Recursively flattens a nested array of `SidebarItem` objects into a single-level array.
-     * It identifies actual documentation pages (items with valid URLs that are not just placeholders)
-     * and adds them to the flattened list, regardless of whether they have children categories or not.
-     *
-     * @param {SidebarItem[]} items The current level of `SidebarItem` objects to traverse.
-     * @param {SidebarItem[]} flattenedList The accumulator array where flattened page items are pushed.
-     * @returns {SidebarItem[]} The flattened array of `SidebarItem` objects, containing only actual page entries.
-     */
-    function extractPages(items: SidebarItem[], flattenedList: SidebarItem[]): SidebarItem[] {
-        for (const item of items) {
-            if (item.children.length == 0 && item.url && item.url !== '#' && !item.url.endsWith('/#')) {
-                flattenedList.push({ ...item });
-            }
-            
-            if (item.children && item.children.length > 0) {
-                extractPages(item.children, flattenedList);
-            }
-        }
-        return flattenedList;
-    }
-    
-    /**
-     * Helper function: Processes a single Docusaurus page to extract its main content HTML.
-     * This function creates a new Puppeteer page (tab) for each task. It navigates to the page,
-     * waits for essential elements, expands collapsible sections, updates the main content element's ID,
-     * and then extracts its outer HTML.
-     *
-     * @param browser The Puppeteer `Browser` instance used to create new pages.
-     * @param sidebarItem The `SidebarItem` object containing the page's metadata (title, ID, URL).
-     * @param workerContext An object providing context about the worker processing this page,
-     * including its unique `workerId` for logging.
-     * @returns {Promise<PageDetails>} A Promise that resolves to a `PageDetails` object,
-     * including the extracted HTML content. Returns a `PageDetails`
-     * object with empty HTML and logs an error if processing fails.
-     */
-    async function processSinglePage(browser: Browser, sidebarItem: SidebarItem, workerContext: { workerId: number }): Promise<PageDetails> {
-        const page: Page = await browser.newPage(); // Create a new browser page (tab) for this task
-        const { workerId } = workerContext; // Destructure workerId for consistent logging
-        try {
-            // Log for starting process for THIS specific page
-            console.log(`[Worker ${workerId}] Processing page "${sidebarItem.title}" (URL: ${sidebarItem.url})...`);
-            
-            // Navigate to the page. Wait until network is idle (no more than 0 connections for 500ms).
-            // Set a timeout to prevent indefinite waiting if the page fails to load.
-            await page.goto(sidebarItem.url, { waitUntil: 'networkidle0', timeout: 60000 });
-            
-            // Wait for the main Docusaurus content container to be present in the DOM.
-            // This ensures the primary content area is rendered before proceeding.
-            // Note: The selector targets a specific Docusaurus theme layout component.
-            await page.waitForSelector('div[class^="docItemContainer"]>article>div[class*="theme-doc-markdown"]', { timeout: 60000 });
-            console.log(`[Worker ${workerId}] Page "${sidebarItem.title}" loaded and main content selector found.`);
-            
-            // Execute a script within the page context to expand any collapsible <details> elements.
-            // This ensures all hidden content is visible for extraction.
-            await page.evaluate(expandDetails);
-            console.log(`[Worker ${workerId}] Expanded collapsible details for "${sidebarItem.title}".`);
-            
-            // Update the main Docusaurus content element's ID to a unique, generated ID.
-            // This is crucial for creating correct internal anchor links in the merged PDF.
-            // The selector must match the one used for `waitForSelector` above.
-            await page.evaluate(updateElementId, 'div[class^="docItemContainer"]>article>div[class*="theme-doc-markdown"]', sidebarItem.id);
-            console.log(`[Worker ${workerId}] Element ID updated to "${sidebarItem.id}" for "${sidebarItem.title}".`);
-            
-            // Get the outer HTML of the content container using its new unique ID.
-            const html = await page.evaluate(getElementOuterHtml, '#' + sidebarItem.id);
-            
-            // Log for successful completion of THIS specific page
-            console.log(`[Worker ${workerId}] Successfully processed page "${sidebarItem.title}".`);
-            
-            return {
-                ...sidebarItem, // Include original sidebar item metadata
-                html: html // Add the extracted HTML content
-            };
-        } catch (error) {
-            // Log clear error for THIS specific page, including URL and worker ID
-            console.error(`[Worker ${workerId}] ERROR processing page "${sidebarItem.title}" (URL: ${sidebarItem.url}): ${error instanceof Error ? error.message : String(error)}`);
-            return {
-                ...sidebarItem, // Return original metadata even on failure
-                html: ``, // Provide empty HTML to avoid breaking the overall process
-            };
-        } finally {
-            // Crucial: Always close the page after its task is done to release browser resources.
-            await page.close();
-            // No need for a "page closed" log for every single page, it adds too much noise
-        }
+function parseListOption(value: string | undefined): string[] | undefined {
+    if (!value) {
+        return undefined;
     }
-    
-    // --- Main `buildPageDetailsParallel` Logic ---
-    
-    // Flatten the hierarchical sidebar items into a single list of pages to process.
-    const pagesToProcess = extractPages(sidebarItems, []);
-    console.log(`[Page Fetcher] Extracted ${pagesToProcess.length} documentation pages to process.`);
-    
-    const totalPages = pagesToProcess.length;
-    console.log(`[Page Fetcher] Starting to fetch content for ${totalPages} pages using ${maxConcurrency} concurrent workers.`);
-    
-    // Pre-allocate an array to store results in the correct order.
-    // This ensures the final output array maintains the original sequence of pages from `pagesToProcess`.
-    const orderedPageDetails: PageDetails[] = new Array(totalPages);
-    let currentIndex = 0; // Tracks the next page index to be assigned to a worker
-    
-    // Create `maxConcurrency` number of "worker promises".
-    // Each worker promise will continuously pick up tasks until all pages are processed.
-    const workerPromises = Array.from({ length: maxConcurrency }, async (_, workerId) => {
-        // The worker starts implicitly when its promise is created. No explicit "worker started" log here to reduce noise.
-        while (true) {
-            let pageIndexToProcess: number; // Stores the original index of the page to be processed
-            let pageSummaryToProcess: SidebarItem | undefined;
-            
-            // Atomically get the next page index to process.
-            // `currentIndex++` is safe in this concurrent context for primitive types.
-            if (currentIndex < totalPages) {
-                pageIndexToProcess = currentIndex;
-                pageSummaryToProcess = pagesToProcess[pageIndexToProcess];
-                currentIndex++; // Increment for the next worker to pick up
-            } else {
-                // All pages have been assigned. This worker has completed all its tasks and can stop.
-                console.log(`[Worker ${workerId}] All assigned tasks completed. Worker thread finishing.`);
-                break; // Exit the worker's processing loop
-            }
-            
-            // The detailed "Processing page..." log is inside `processSinglePage` to avoid redundant logging here.
-            
-            // Process the page using the nested helper function, passing worker context.
-            const pageDetail = await processSinglePage(browser, pageSummaryToProcess, { workerId });
-            // Store the result directly into its correct position in the pre-allocated ordered array.
-            orderedPageDetails[pageIndexToProcess] = pageDetail;
-            
-            // The "Successfully processed page..." log is inside `processSinglePage`.
-        }
-    });
-    
-    // Wait for all worker promises to complete.
-    // `Promise.all` will only resolve when every single worker has exhausted its tasks
-    // and all pages have been processed (or attempted to be processed).
-    await Promise.all(workerPromises);
-    
-    console.log(`[Page Fetcher] Finished fetching content for all ${totalPages} pages.`);
-    console.log(`[Page Fetcher] Final results collected for ${orderedPageDetails.length} pages.`);
-    return orderedPageDetails; // Return the correctly ordered array of page details
+    return value.split(',').map(it => it.trim()).filter(it => !!it);
+}
+
+/**
+ * Converts a camelCase option key back to its kebab-case command-line name, e.g. "pdfMarginMm" to "pdf-margin-mm".
+ */
+function toKebabCase(key: string): string {
+    return key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
 }
 
 /**
- * Resolves a given path string into an absolute URL that a browser can understand.
- * This handles:
- * - Direct HTTP/HTTPS URLs (e.g., 'https://example.com/image.jpg')
- * - 'file:///'-prefixed URLs (returns as is)
- * - 'classpath:'-prefixed paths (resolved against CWD/project root)
- * - 'file:'-prefixed paths (resolved as local file system paths)
- * - Relative or absolute file system paths (resolved to absolute 'file:///' URLs).
+ * Collects the values of a repeatable command-line option into a list, e.g. `--css a.css --css b.css`.
  *
- * @param inputPath The input path string provided by the user.
- * @returns {string} An absolute URL (HTTP(S) or file:///) that Puppeteer can use.
- * @throws {Error} If a 'classpath:' or 'file:' resource is not found or is invalid.
+ * @param value The value of the current occurrence of the option.
+ * @param previous The values of the previous occurrences, if any.
+ * @returns {string[]} The values of all occurrences so far.
  */
-function resolveBrowserUrl(inputPath: string): string {
-    if (!inputPath) {
-        return '';
-    }
-    
-    // 1. Handle HTTP/HTTPS URLs directly
-    if (inputPath.startsWith('http://') || inputPath.startsWith('https://')) {
-        return inputPath;
-    }
-    
-    // 2. Handle 'file:///' URLs (already absolute for browser)
-    if (inputPath.startsWith('file:///')) {
-        // Ensure the file actually exists for 'file:///' URLs to prevent silent failures later
-        const localPath = decodeURIComponent(inputPath.substring(7)); // Remove 'file:///' and decode
-        if (!fs.existsSync(localPath)) {
-            throw new Error(`File not found: ${localPath} (from URL: ${inputPath})`);
+function collectOption(value: string, previous: string[] | undefined): string[] {
+    return [...(previous || []), value];
+}
+
+/**
+ * Parses the values of the repeatable `--header` option ("Name: value") into a header object.
+ *
+ * @param values The values of the option.
+ * @param program The command, used to report invalid values.
+ * @returns {{ [name: string]: string }} The headers by name.
+ */
+function parseHeaderOptions(values: string[], program: Command): { [name: string]: string } {
+    const headers: { [name: string]: string } = {};
+    for (const value of values) {
+        const separatorIndex = value.indexOf(':');
+        if (separatorIndex <= 0) {
+            program.error(`Invalid --header "${value.substring(0, 40)}": expected "Name: value".`);
         }
-        return inputPath;
-    }
-    
-    let absoluteFilePath: string;
-    
-    // 3. Handle 'classpath:' and 'file:' prefixes (Node.js context)
-    if (inputPath.startsWith('classpath:')) {
-        // For 'classpath:', we typically resolve relative to the current working directory
-        // or a predefined 'resource' directory in a Node.js project.
-        // For simplicity here, we'll resolve relative to the process's current working directory.
-        const relativePath = inputPath.substring('classpath:'.length);
-        absoluteFilePath = path.resolve(process.cwd(), relativePath);
-        console.log(`[Path Resolver] Resolved classpath: "${inputPath}" to local path: "${absoluteFilePath}"`);
-    } else if (inputPath.startsWith('file:')) {
-        // For 'file:', resolve as an absolute file path.
-        // Handle potential Windows drive letters if inputPath is 'file:///C:/...'
-        absoluteFilePath = path.resolve(inputPath.substring('file:'.length));
-        console.log(`[Path Resolver] Resolved file: "${inputPath}" to local path: "${absoluteFilePath}"`);
-    } else {
-        // 4. Handle plain relative or absolute file paths
-        // Treat as a local file system path and resolve to absolute
-        absoluteFilePath = path.resolve(inputPath);
-        console.log(`[Path Resolver] Resolved relative/absolute path: "${inputPath}" to local path: "${absoluteFilePath}"`);
-    }
-    
-    // Ensure the resolved file actually exists
-    if (!fs.existsSync(absoluteFilePath)) {
-        throw new Error(`Local file not found at resolved path: ${absoluteFilePath} (from input: ${inputPath})`);
+        headers[value.substring(0, separatorIndex).trim()] = value.substring(separatorIndex + 1).trim();
     }
-    
-    // Convert the absolute file path to a 'file:///' URL for the browser
-    // Handle Windows paths where 'C:\' becomes 'file:///C:/'
-    const fileUrl = 'file:///' + absoluteFilePath.replace(/\\/g, '/'); // Replace backslashes for URL consistency
-    return fileUrl;
+    return headers;
 }
+
 /**
- * Defines all configurable options for the PDF generation process.
- * These options are typically passed via command-line arguments and control
- * the source of documentation, output path, cover image, page margins,
- * and the level of concurrent processing.
+ * Parses basic authentication credentials given as "user:password". The password may contain colons.
+ *
+ * @param value The credentials.
+ * @param source The option or environment variable the credentials come from, used in error messages.
+ * @param program The command, used to report invalid values.
+ * @returns {BasicAuthCredentials} The credentials.
  */
-export interface PdfGenerationOptions {
-    /**
-     * The base URL of the Docusaurus documentation to convert.
-     * Example: 'http://localhost:3000/docs/introduction'.
-     */
-    docsUrl: string;
-    /**
-     * The full file path where the generated PDF document will be saved.
-     * Example: 'output/my-docs.pdf'.
-     */
-    pdfPath: string;
-    /**
-     * Optional. The URL or local file path to an image to be used as the PDF cover page.
-     * This can be an absolute URL (http/https), a relative or absolute file system path,
-     * or a path prefixed with 'file:///' or 'classpath:'.
-     * If provided, a dedicated cover page will be generated.
-     */
-    pdfCoverImage?: string; // Explicitly marked as optional
-    /**
-     * The size of the margins for all sides of the PDF pages, in millimeters (mm).
-     * For example, 20 indicates a 20mm margin on top, bottom, left, and right.
-     */
-    pdfMarginMm: number;
-    /**
-     * The maximum number of browser pages (tabs) to use concurrently for fetching
-     * and processing individual documentation pages.
-     * Higher values can speed up content extraction but may increase memory and CPU consumption.
-     * A common balance for I/O-bound tasks is to set this to 1.5 to 2 times the number of CPU cores.
-     */
-    pageConcurrency: number;
+function parseBasicAuthOption(value: string, source: string, program: Command): BasicAuthCredentials {
+    const separatorIndex = value.indexOf(':');
+    if (separatorIndex <= 0) {
+        // The value is not echoed, as it may hold a password.
+        program.error(`Invalid ${source}: expected "user:password".`);
+    }
+    return { username: value.substring(0, separatorIndex), password: value.substring(separatorIndex + 1) };
 }
 
-async function convertDocusaurusPageToPdf(
-    {docsUrl, pdfPath, pdfCoverImage, pdfMarginMm, pageConcurrency}:
-    PdfGenerationOptions
-): Promise<void> {
-    // Define the PDF paper format (e.g., 'A4'). This dictates the physical page dimensions.
-    const pdfFormat = 'A4';
-    // Retrieve the dimensions (width and height in mm) for the specified paper format.
-    const paperFormat: PaperFormat = PAPER_FORMATS[pdfFormat];
-    
-    /**
-     * Helper function: Builds the hierarchical sidebar items structure from an initial Docusaurus URL.
-     * This involves navigating to the URL, waiting for the main content to load,
-     * expanding the sidebar's collapsible sections, and then extracting the structured sidebar data.
-     * This function runs within the main Puppeteer page.
-     *
-     * @param page The Puppeteer `Page` instance to navigate and extract from.
-     * @param url The initial URL of the Docusaurus documentation to start sidebar parsing from.
-     * @returns {Promise<SidebarItem[]>} A Promise that resolves to a nested array of `SidebarItem` objects.
-     */
-    async function buildSidebarItems(page: Page, url: string): Promise<SidebarItem[]> {
-        console.log(`[Stage 1/4 - Setup] Navigating to initial Docusaurus URL for sidebar extraction: ${url}`);
-        await page.goto(url, {waitUntil: 'networkidle0', timeout: 60000});
-        await page.waitForSelector('#__docusaurus', {timeout: 60000});
-        await page.evaluate(expandDocusaurusSidebar);
-        return await page.evaluate(extractDocusaurusSidebarItems);
+/**
+ * Returns a copy of the options that can be logged: header values, passwords and the query string of the browser's
+ * WebSocket endpoint (which hosted browsers use for access tokens) are masked.
+ *
+ * @param options The options of a run.
+ * @returns {ConvertOptions} The options with their secrets replaced by "***".
+ */
+function redactSecrets(options: ConvertOptions): ConvertOptions {
+    const redacted = { ...options };
+    if (redacted.httpHeaders) {
+        redacted.httpHeaders = Object.fromEntries(Object.keys(redacted.httpHeaders).map(name => [name, '***']));
     }
-    
-    let browser: Browser | undefined;
-    try {
-        // --- Stage 1: Browser and Page Setup ---
-        console.log("[Stage 1/4 - Setup] Launching browser...");
-        browser = await launchBrowser();
-        console.log("[Stage 1/4 - Setup] Browser launched successfully.");
-        console.log("[Stage 1/4 - Setup] Creating new Puppeteer page...");
-        const page = await browser.newPage();
-        console.log("[Stage 1/4 - Setup] Page created.");
-        
-        let coverImageBase64: string | undefined;
-        let coverImageMimeType: string | undefined;
-        
-        // If a PDF cover image path/URL is provided, resolve it to a browser-compatible URL
-        // and then request and base64 encode it.
-        if (pdfCoverImage) {
-            console.log(`[Stage 1/4 - Setup] Resolving cover image path: "${pdfCoverImage}"`);
-            let resolvedCoverImageUrl: string;
-            try {
-                resolvedCoverImageUrl = resolveBrowserUrl(pdfCoverImage);
-                console.log(`[Stage 1/4 - Setup] Resolved to browser URL: "${resolvedCoverImageUrl}"`);
-            } catch (pathError) {
-                console.error(`[Stage 1/4 - Setup] ERROR: Could not resolve cover image path "${pdfCoverImage}". Skipping cover page. Details: ${pathError instanceof Error ? pathError.message : String(pathError)}`);
-                pdfCoverImage = undefined; // Nullify pdfCoverImage to skip cover generation
-            }
-            
-            if (pdfCoverImage) { // Check again in case it was nullified
-                console.log("[Stage 1/4 - Setup] Requesting cover image data...");
-                const {imageBase64, imageMimeType} = await requestForImage(page, resolvedCoverImageUrl!); // Use ! as we handled nullification
-                console.log("[Stage 1/4 - Setup] Cover image data successfully retrieved.");
-                coverImageBase64 = imageBase64;
-                coverImageMimeType = imageMimeType;
-            }
-        }
-        
-        // --- Stage 2: Data Collection (Sidebar & Page Content) ---
-        console.log("[Stage 2/4 - Data Collection] Building sidebar structure...");
-        const sidebarItems: SidebarItem[] = await buildSidebarItems(page, docsUrl);
-        console.log(`[Stage 2/4 - Data Collection] Sidebar structure built with ${sidebarItems.length} top-level items.`);
-        
-        const buildDetailsStartTime = Date.now();
-        console.log(`[Stage 2/4 - Data Collection] Starting concurrent content extraction for all documentation pages.`);
-        
-        const pageDetails = await buildPageDetailsParallel(browser, sidebarItems, pageConcurrency);
-        const buildDetailsEndTime = Date.now();
-        const buildDetailsDuration = (buildDetailsEndTime - buildDetailsStartTime) / 1000;
-        console.log(`[Stage 2/4 - Data Collection] Content extraction completed. Took ${buildDetailsDuration.toFixed(2)} seconds.`);
-        
-        // --- Stage 3: HTML Merging and Rendering on Page ---
-        console.log("[Stage 3/4 - HTML Rendering] Merging all extracted HTML content...");
-        let html = '';
-        if (pdfCoverImage && coverImageBase64 && coverImageMimeType) {
-            const coverHtml = generateCoverHtml(
-                coverImageMimeType,
-                coverImageBase64,
-                paperFormat // Pass the resolved paper format object
-            );
-            html += coverHtml;
-        } else if (pdfCoverImage) {
-            console.warn("[Stage 3/4 - HTML Rendering] PDF Cover Image URL was provided but image data could not be retrieved. Skipping cover page.");
-        }
-        
-        const tocHtml = generateTocHtml(sidebarItems, '目录');
-        html += tocHtml;
-        
-        for (const singlePageDetail of pageDetails) { // Renamed 'page' to 'singlePageDetail' for clarity
-            html += singlePageDetail.html;
-        }
-        console.log("[Stage 3/4 - HTML Rendering] All content merged. Injecting into Puppeteer page...");
-        
-        await page.evaluate(replaceBodyInnerHtml, html);
-        await page.evaluate(removeLazyLoading);
-        console.log("[Stage 3/4 - HTML Rendering] HTML content injected into Puppeteer page's DOM.");
-        
-        if (pdfCoverImage) {
-            await page.addStyleTag({
-                content: `
-                    @page:first {
-                        margin: 0 !important;
-                        padding: 0 !important;
-                    }
-                `
-            });
-            console.log("[Stage 3/4 - HTML Rendering] Applied special margin style for cover page.");
-        }
-        
-        await page.addStyleTag({
-            content: `
-                @page {
-                    margin: ${pdfMarginMm}mm !important;
-                }
-            `
-        });
-        console.log(`[Stage 3/4 - HTML Rendering] Applied general page margins of ${pdfMarginMm}mm.`);
-        
-        const pathToAnchors = pageDetails.map(it => [it.path, it.id] as [string, string]);
-        await page.evaluate(rewriteLinks, pathToAnchors);
-        console.log("[Stage 3/4 - HTML Rendering] Internal links rewritten to point to anchor IDs.");
-        
-        await page.evaluate(
-            removeElements,
-            [
-                'nav.theme-doc-breadcrumbs',
-                'footer.theme-doc-footer',
-                'nav.pagination-nav',
-            ]
-        );
-        console.log("[Stage 3/4 - HTML Rendering] Unwanted elements removed from DOM.");
-        
-        console.log('[Stage 3/4 - HTML Rendering] Waiting for injected HTML to render and network to be idle...');
-        await page.waitForNetworkIdle();
-        console.log('[Stage 3/4 - HTML Rendering] HTML rendering and network idle complete.');
-        
-        // --- Stage 4: PDF Generation ---
-        console.log(`[Stage 4/4 - PDF Generation] Starting PDF generation to: ${pdfPath}...`);
-        const pdfStartTime = Date.now();
-        await page.pdf({
-            path: pdfPath,
-            format: pdfFormat,
-            printBackground: true,
-            margin: {
-                top: pdfMarginMm + 'mm',
-                bottom: pdfMarginMm + 'mm',
-                left: pdfMarginMm + 'mm',
-                right: pdfMarginMm + 'mm',
-            },
-            displayHeaderFooter: true,
-            headerTemplate: `
-                <div style="
-                    font-size: 10px;
-                    width: 100%;
-                    text-align: center;
-                    margin: 0;
-                    padding: 0;
-                ">
-                </div>
-            `,
-            footerTemplate: `
-                <div style="
-                    font-size: 10px;
-                    width: 100%;
-                    text-align: center;
-                    margin: 0;
-                    padding: 0;
-                ">
-                    <span class="pageNumber"></span> / <span class="totalPages"></span>
-                </div>
-            `,
-            timeout: 0,
-        });
-        const pdfEndTime = Date.now();
-        const pdfDuration = (pdfEndTime - pdfStartTime) / 1000;
-        console.log(`[Stage 4/4 - PDF Generation] PDF generated successfully. Took ${pdfDuration.toFixed(2)} seconds.`);
-        
-    } catch (error) {
-        console.error(`[PDF Conversion ERROR] An error occurred during the PDF conversion process: ${error instanceof Error ? error.message : String(error)}`);
-        if (error instanceof Error) {
-            console.error(error.stack);
-        }
-    } finally {
-        if (browser) {
-            console.log("[Cleanup] Closing browser...");
-            await browser.close();
-            console.log("[Cleanup] Browser closed.");
-        }
+    if (redacted.basicAuth) {
+        redacted.basicAuth = { username: redacted.basicAuth.username, password: '***' };
     }
+    if (redacted.browserWSEndpoint && redacted.browserWSEndpoint.includes('?')) {
+        redacted.browserWSEndpoint = redacted.browserWSEndpoint.replace(/\?.*$/, '?***');
+    }
+    return redacted;
 }
 
-
 // --- Execution Start ---
 /**
  * Main execution block of the script.
@@ -502,51 +113,186 @@ async function main() {
         program
             .version('0.0.3')
             .description('Converts Docusaurus documentation to a single PDF file.')
-            .option('-u, --docs-url <url>', 'The base URL of the Docusaurus documentation (e.g., "http://localhost:3000/docs/introduction")')
-            .option('-o, --pdf-path <path>', 'The output file path for the generated PDF (e.g., "output/my-docs.pdf")')
+            .option('-u, --docs-url <url>', 'The base URL of the Docusaurus documentation (e.g., "http://localhost:3000/docs/introduction"), or with --build-dir the path of the first page (e.g., "docs/introduction")')
+            .option('-o, --pdf-path <path>', 'The output file path for the generated PDF (e.g., "output/my-docs.pdf"). May contain {version} and {locale} placeholders (e.g., "output/docs-{version}-{locale}.pdf").')
             .option('-c, --pdf-cover-image <pathOrUrl>', 'Optional. The URL or local file path (e.g., "cover.jpg", "/path/to/cover.jpg" "file:///path/to/image.jpg") for the PDF cover image.')
-            .option('-m, --pdf-margin-mm <number>', 'The margin size in millimeters to apply to all sides of the PDF pages.', '10')
-            .option('-p, --page-concurrency <number>', 'The maximum number of concurrent browser pages to use for content fetching (e.g., 5, 10). Defaults to 2x CPU cores.', `${os.cpus().length * 2}`)
+            .option('-m, --pdf-margin-mm <number>', 'The margin size in millimeters to apply to all sides of the PDF pages.', `${DEFAULT_PDF_GENERATION_OPTIONS.pdfMarginMm}`)
+            .option('-f, --paper-format <format>', 'The paper format of the PDF pages: a named format (A0-A6, B4, B5, Letter, Legal, Tabloid, Ledger, Executive) or custom dimensions like "210x297mm" or "8.5x11in".', DEFAULT_PDF_GENERATION_OPTIONS.paperFormat)
+            .option('-l, --landscape', 'Print the PDF pages in landscape orientation.', false)
+            .option('--no-outline', 'Do not add PDF bookmarks (outline) built from the sidebar structure.')
+            .option('--outline-headings', 'Also add the h2/h3 headings of every page to the PDF bookmarks.', false)
+            .option('--toc-page-numbers', 'Print page numbers with dot leaders in the table of contents (renders the PDF twice).', false)
+            .option('--numbering', 'Number chapters and sections hierarchically (1, 1.2, 1.2.3) in the TOC, headings, bookmarks and cross-reference links.', false)
+            .option('--page-retries <number>', 'The number of times a page is retried after a failed attempt before it is given up.', `${DEFAULT_PDF_GENERATION_OPTIONS.pageRetries}`)
+            .option('--page-retry-delay-ms <number>', 'The delay in milliseconds before the first retry of a failed page. Doubles with every further retry.', `${DEFAULT_PDF_GENERATION_OPTIONS.pageRetryDelayMs}`)
+            .option('--strict', 'Exit with a non-zero code if any page could not be extracted, instead of inserting a placeholder page.', false)
+            .option('--versions <list>', 'Optional. Comma-separated documentation versions to export from the navbar version dropdown (e.g. "2.x,Next"), or "all". Each version is written to its own PDF, see the {version} placeholder of --pdf-path.')
+            .option('--locales <list>', 'Optional. Comma-separated locales to export from the navbar locale dropdown (e.g. "en,zh-Hans"), or "all". Each locale is written to its own PDF, see the {locale} placeholder of --pdf-path.')
+            .option('--toc-title <title>', 'Optional. The title of the table of contents. Defaults to a title in the language of the documentation.')
+            .option('--sidebar-urls <list>', 'Optional. Comma-separated documentation URLs whose sidebars are added to the same PDF, each as a part with its own title page (e.g. "http://localhost:3000/docs/api/intro").')
+            .option('--all-sidebars', 'Discover every docs sidebar linked from the navbar and add them all to the same PDF, each as a part with its own title page.', false)
+            .option('-p, --page-concurrency <number>', 'The maximum number of concurrent browser pages to use for content fetching (e.g., 5, 10). Defaults to 2x CPU cores.', `${DEFAULT_PDF_GENERATION_OPTIONS.pageConcurrency}`)
+            .option('--header-template <htmlOrPath>', 'Optional. The page header, as inline HTML or the path of an HTML file. Supports Chrome\'s classes (date, title, url, pageNumber, totalPages) and the tokens {docTitle}, {chapter}, {version} and {buildDate}. Defaults to an empty header.')
+            .option('--footer-template <htmlOrPath>', 'Optional. The page footer, see --header-template. Defaults to "pageNumber / totalPages".')
+            .option('--hide-header-footer-on-cover-and-toc', 'Leave out the header and footer on the cover and table of contents pages.', false)
+            .option('--document-title <title>', 'Optional. The title of the document, written into the PDF metadata and used for the {docTitle} template token and the generated cover page. Defaults to the title of the Docusaurus site.')
+            .option('--cover', 'Generate a cover page with the document title, subtitle, logo, version, date, organization and legal notice. A --pdf-cover-image is shown on it as well.', false)
+            .option('--cover-template <htmlOrPath>', 'Optional. A custom cover page template, as inline HTML or the path of an HTML file, using {{title}}, {{subtitle}}, {{logo}}, {{image}}, {{version}}, {{date}}, {{organization}}, {{legalNotice}}, {{pageWidth}}, {{pageHeight}} and {{#if name}}...{{/if}} blocks. Implies --cover.')
+            .option('--cover-subtitle <text>', 'Optional. The subtitle of the generated cover page. Defaults to the site\'s tagline.')
+            .option('--cover-logo <pathOrUrl>', 'Optional. The logo of the generated cover page. Defaults to the navbar logo.')
+            .option('--cover-organization <text>', 'Optional. The organization shown on the generated cover page.')
+            .option('--cover-legal-notice <text>', 'Optional. The legal notice shown on the generated cover page. Defaults to the site\'s footer copyright.')
+            .option('--author <name>', 'Optional. The author written into the PDF metadata. Defaults to the site\'s author meta tag.')
+            .option('--subject <text>', 'Optional. The subject written into the PDF metadata. Defaults to the site\'s tagline.')
+            .option('--keywords <list>', 'Optional. Comma-separated keywords written into the PDF metadata. Defaults to the site\'s keywords meta tag.')
+            .option('--creator <name>', 'Optional. The creator application written into the PDF metadata. Defaults to "docusaurus-docs-to-pdf".')
+            .option('--language <tag>', 'Optional. The language of the document (e.g. "en", "ar"), written into the PDF metadata and used for hyphenation and text direction. Defaults to the language of the documentation.')
+            .option('--tabs <mode>', 'Which panels of Docusaurus tabs to export: "all" (every panel, one after another, labeled with its tab title) or "first".', DEFAULT_PDF_GENERATION_OPTIONS.tabs)
+            .option('--render-timeout-ms <number>', 'The maximum time in milliseconds to wait for client-rendered content of a page (Mermaid diagrams, live code previews, math, images, fonts) to finish rendering. Pages that time out are captured as they are and reported.', `${DEFAULT_PDF_GENERATION_OPTIONS.renderTimeoutMs}`)
+            .option('--cache-dir <path>', 'Optional. The directory of the page cache, which lets later runs only render the pages that changed. Defaults to "node_modules/.cache/docusaurus-docs-to-pdf".')
+            .option('--no-cache', 'Render every page, without reading or writing the page cache.')
+            .option('--chunked', 'Render each top-level sidebar section as a PDF of its own and merge them, for sites too large to print in one go. Page numbers, bookmarks and internal links work across the sections.', false)
+            .option('--chunk-concurrency <number>', 'The maximum number of sections rendered at the same time with --chunked. Lower it if the browser runs out of memory.', `${DEFAULT_PDF_GENERATION_OPTIONS.chunkConcurrency}`)
+            .option('--resume', 'Resume an interrupted run: the pages saved in the checkpoint file next to the PDF file (e.g. "docs.pdf.checkpoint.jsonl") are not extracted again.', false)
+            .option('--include <glob>', 'Optional. A glob pattern of page paths to export, e.g. "docs/getting-started/**" (paths without the leading slash; "*" matches within a path segment, "**" across segments). Repeat the option for several patterns. Pages that are not exported are linked to the live site.', collectOption)
+            .option('--exclude <glob>', 'Optional. A glob pattern of page paths to leave out, e.g. "**/internal/**". Repeat the option for several patterns. Wins over --include.', collectOption)
+            .option('--category <title>', 'Optional. The title of a sidebar category (or sidebar) to export, e.g. "Getting Started". Repeat the option for several categories.', collectOption)
+            .option('--exclude-category <title>', 'Optional. The title of a sidebar category (or sidebar) to leave out, e.g. "Deprecated". Repeat the option for several categories.', collectOption)
+            .option('--remove-selector <selector>', 'Optional. A CSS selector of elements to remove before printing, e.g. ".feedback-widget". Repeat the option for several selectors. The breadcrumbs, doc footer and pagination are removed by default.', collectOption)
+            .option('--keep-selector <selector>', 'Optional. A CSS selector of elements that are never removed, e.g. "nav.pagination-nav" to keep the previous/next links. Repeat the option for several selectors.', collectOption)
+            .option('--css <pathOrUrl>', 'Optional. A stylesheet (URL or local file path) applied before printing. Repeat the option for several stylesheets; they are applied in order, after any presets.', collectOption)
+            .option('--presets <names>', 'Optional. Comma-separated built-in print stylesheets: "compact" (smaller type, fewer pages), "serif" (serif body font for reading on paper) and/or "high-contrast" (black and white for laser printers).')
+            .option('--header <header>', 'Optional. An HTTP header sent with every request to the documentation site, e.g. "Authorization: Bearer <token>". Repeat the option for several headers. Requests to other origins do not get it.', collectOption)
+            .option('--basic-auth <user:password>', 'Optional. Credentials for HTTP basic authentication, sent to the documentation site only. Defaults to the DOCS_TO_PDF_BASIC_AUTH environment variable, which keeps the password out of the process list.')
+            .option('--cookie-jar <path>', 'Optional. A cookie file (Netscape "cookies.txt" or JSON format) loaded into the browser, e.g. with the session cookies of a single sign-on.')
+            .option('--login-script <path>', 'Optional. A script (.js, .cjs, .mjs or .ts) exporting an async function (page, { browser, docsUrl }) that signs in to the documentation site before it is crawled.')
+            .option('--executable-path <path>', 'Optional. The Chrome or Chromium executable to use instead of the browser bundled with Puppeteer, e.g. "/usr/bin/google-chrome".')
+            .option('--browser-ws-endpoint <url>', 'Optional. Connect to a running browser at this WebSocket URL instead of launching one, e.g. "ws://127.0.0.1:9222/devtools/browser/<id>".')
+            .option('--browser-url <url>', 'Optional. Connect to a running browser with this DevTools HTTP endpoint instead of launching one, e.g. "http://127.0.0.1:9222".')
+            .option('--browser-arg <arg>', 'Optional. An additional command-line argument for the launched browser, e.g. "--disable-dev-shm-usage". Repeat the option for several arguments.', collectOption)
+            .option('--secure-browser', 'Launch the browser without the default arguments that weaken its security (--no-sandbox, --disable-setuid-sandbox, --disable-web-security and site isolation off).', false)
+            .option('--build-dir <path>', 'Optional. Convert the output directory of "docusaurus build" (e.g. "build") without a running server: it is served on a temporary localhost port. --docs-url may then be a path of the site, e.g. "docs/intro".')
+            .option('--base-url <path>', 'Optional. The baseUrl the site in --build-dir was built with (e.g. "/my-docs/"). Detected from the build output by default.')
+            .option('--config <path>', `Optional. A config file with the options of one or more outputs. Defaults to the first of ${CONFIG_FILE_NAMES.join(', ')} found in the current directory. Command-line options override the config file.`)
+            .option('--outputs <list>', 'Optional. Comma-separated names of the config file outputs to generate. Defaults to all outputs.')
             .parse(process.argv); // Parse the arguments
         
         const options = program.opts(); // Get the parsed options
-        if (!options.docsUrl) {
-            program.error('Missing required option: --docs-url <url>');
+
+        // Command-line options override the config file, so only the ones actually given on the command line are
+        // taken over; everything else falls back to the config file and then to DEFAULT_PDF_GENERATION_OPTIONS.
+        const givenOnCommandLine = (key: string) => program.getOptionValueSource(key) === 'cli';
+        const cliOptions: Partial<PdfGenerationOptions> = {};
+        const numberOptions = ['pdfMarginMm', 'pageConcurrency', 'pageRetries', 'pageRetryDelayMs', 'renderTimeoutMs', 'chunkConcurrency'] as const;
+        const listOptions = ['versions', 'locales', 'sidebarUrls', 'keywords', 'presets'] as const;
+        // Options named differently on the command line: repeatable options are named in the singular
+        // (e.g. `--remove-selector a --remove-selector b`), and commander camel-cases acronyms like "URL".
+        const renamedOptions: { [cliKey: string]: keyof PdfGenerationOptions } = {
+            removeSelector: 'removeSelectors',
+            keepSelector: 'keepSelectors',
+            category: 'categories',
+            excludeCategory: 'excludeCategories',
+            browserArg: 'browserArgs',
+            browserWsEndpoint: 'browserWSEndpoint',
+            browserUrl: 'browserURL',
+        };
+        const setOption = <K extends keyof PdfGenerationOptions>(key: K, value: PdfGenerationOptions[K]) => {
+            cliOptions[key] = value;
+        };
+        for (const cliKey of Object.keys(options)) {
+            if (!givenOnCommandLine(cliKey) || cliKey === 'config' || cliKey === 'outputs') {
+                continue;
+            }
+            if (cliKey === 'header') {
+                cliOptions.httpHeaders = parseHeaderOptions(options.header, program);
+                continue;
+            }
+            if (cliKey === 'basicAuth') {
+                cliOptions.basicAuth = parseBasicAuthOption(options.basicAuth, '--basic-auth', program);
+                continue;
+            }
+            // Every other command-line option must name a conversion option, so a typo fails instead of being passed on.
+            const key = renamedOptions[cliKey] || cliKey;
+            if (!isOptionName(key)) {
+                program.error(`The command-line option --${toKebabCase(cliKey)} has no matching conversion option.`);
+                continue;
+            }
+            if (renamedOptions[cliKey]) {
+                setOption(key, options[cliKey]);
+                continue;
+            }
+            if ((numberOptions as readonly string[]).includes(key)) {
+                const value = parseInt(options[key], 10);
+                if (isNaN(value) || value < 0) {
+                    console.warn(`[Arg Parser] Warning: --${toKebabCase(key)} could not be parsed as a non-negative number. Using the configured or default value.`);
+                    continue;
+                }
+                setOption(key, value);
+            } else if ((listOptions as readonly string[]).includes(key)) {
+                setOption(key, parseListOption(options[key]));
+            } else {
+                setOption(key, options[key]);
+            }
         }
-        if (!options.pdfPath) {
-            program.error('Missing required option: --pdf-path <path>');
+
+        if (!cliOptions.basicAuth && process.env.DOCS_TO_PDF_BASIC_AUTH) {
+            cliOptions.basicAuth = parseBasicAuthOption(process.env.DOCS_TO_PDF_BASIC_AUTH, 'DOCS_TO_PDF_BASIC_AUTH', program);
         }
 
-        const pdfGenerationOptions: PdfGenerationOptions = {
-            docsUrl: options.docsUrl as string,
-            pdfPath: options.pdfPath as string,
-            pdfCoverImage: options.pdfCoverImage as string | undefined,
-            pdfMarginMm: parseInt(options.pdfMarginMm, 10),
-            pageConcurrency: parseInt(options.pageConcurrency, 10),
-        };
-        if (isNaN(pdfGenerationOptions.pdfMarginMm)) {
-            console.warn(`[Arg Parser] Warning: --pdf-margin-mm could not be parsed as a number. Using default of 10mm.`);
-            pdfGenerationOptions.pdfMarginMm = 10;
+        let configOutputs: ConfigOutput[] = [{ name: '', options: {} }];
+        const configPath = options.config as string | undefined || findConfigFile(process.cwd());
+        if (configPath) {
+            try {
+                console.log(`[Config] Loading config file: ${configPath}`);
+                configOutputs = resolveConfigOutputs(await loadConfigFile(configPath), parseListOption(options.outputs));
+            } catch (configError) {
+                program.error(configError instanceof Error ? configError.message : String(configError));
+            }
+        } else if (options.outputs) {
+            program.error('The --outputs option requires a config file, see --config <path>.');
+        }
+        if (cliOptions.pdfPath && configOutputs.length > 1) {
+            program.error(`--pdf-path cannot be used when several outputs are selected (${configOutputs.map(it => it.name).join(', ')}). Select a single output with --outputs, or set pdfPath per output in the config file.`);
         }
 
-        if (!pdfGenerationOptions.pdfPath.endsWith('.pdf')) {
-            console.warn(`[Arg Parser] Warning: --pdf-path "${pdfGenerationOptions.pdfPath}" does not end with .pdf. Appending .pdf extension.`);
-            pdfGenerationOptions.pdfPath += '.pdf';
+        // The options are applied and validated by `convert`, the output's name is logged before it starts.
+        const runs: { name: string; options: ConvertOptions }[] = [];
+        for (const configOutput of configOutputs) {
+            const mergedOptions = { ...configOutput.options, ...cliOptions } as ConvertOptions;
+            const outputLabel = configOutput.name ? ` (output "${configOutput.name}")` : '';
+            if (!mergedOptions.docsUrl) {
+                program.error(`Missing required option: --docs-url <url>${outputLabel}`);
+            }
+            if (!mergedOptions.pdfPath) {
+                program.error(`Missing required option: --pdf-path <path>${outputLabel}`);
+            }
+            runs.push({ name: configOutput.name, options: mergedOptions });
         }
-        if (!path.isAbsolute(pdfGenerationOptions.pdfPath)) {
-            pdfGenerationOptions.pdfPath = path.resolve(process.cwd(), pdfGenerationOptions.pdfPath);
-            console.log(`[Arg Parser] Resolved --pdf-path to absolute: "${pdfGenerationOptions.pdfPath}"`);
+
+        let failedPageCount = 0;
+        let timedOutPageCount = 0;
+        const startTime = Date.now();
+        for (const run of runs) {
+            if (run.name) {
+                console.log(`[App Start] Generating output "${run.name}"...`);
+            }
+            console.log("[App Start] Parsed options:", redactSecrets(run.options));
+
+            const result = await convert(run.options);
+            for (const output of result.outputs) {
+                console.log(`[App End] Wrote ${output.pageCount} pages (${output.documentCount} documents) to: ${output.pdfPath}`);
+            }
+            failedPageCount += result.failedPages.length;
+            timedOutPageCount += result.timedOutPages.length;
         }
-        const outputDir = path.dirname(pdfGenerationOptions.pdfPath);
-        if (!fs.existsSync(outputDir)) {
-            console.log(`[Arg Parser] Creating output directory: ${outputDir}`);
-            fs.mkdirSync(outputDir, { recursive: true });
+        if (timedOutPageCount > 0) {
+            console.warn(`[App End] ${timedOutPageCount} page(s) were captured before all of their content had rendered, see the summary above. Consider raising --render-timeout-ms.`);
+        }
+        if (failedPageCount > 0) {
+            console.warn(`[App End] PDF generation process finished with ${failedPageCount} failed page(s), replaced by placeholder pages.`);
+        } else {
+            console.log(`[App End] PDF generation process finished successfully. Took ${((Date.now() - startTime) / 1000).toFixed(2)} seconds.`);
         }
-        
-        console.log("[App Start] Parsed options:", pdfGenerationOptions);
-        
-        await convertDocusaurusPageToPdf(pdfGenerationOptions);
-        console.log("[App End] PDF generation process finished successfully.");
         
     } catch (error) {
         console.error(`[App ERROR] Critical error: ${error instanceof Error ? error.message : String(error)}`);
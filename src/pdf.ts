@@ -0,0 +1,408 @@
+import {PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString} from 'pdf-lib';
+import {OutlineItem, PageDetails, PdfMetadata, SidebarItem} from "./type";
+import * as fs from "node:fs";
+
+/**
+ * A named destination found in a PDF document, i.e. the location an anchor ID points to.
+ */
+export interface PdfDestination {
+    /**
+     * The zero-based index of the page the destination is on.
+     */
+    pageIndex: number;
+    /**
+     * The explicit destination array (e.g. `[pageRef /XYZ left top zoom]`), ready to be
+     * referenced from outline items or link annotations.
+     */
+    dest: PDFArray;
+}
+
+/**
+ * Loads a PDF document for reading and post-processing, e.g. as printed by Puppeteer's `page.pdf()`. The producer and
+ * creation date written by Chrome are kept. Post-processing steps modify the loaded document, so that it is only saved
+ * once when all of them are done.
+ *
+ * @param pdfBytes The bytes of the PDF document.
+ * @returns {Promise<PDFDocument>} A Promise that resolves to the loaded document.
+ */
+export async function loadPdfDocument(pdfBytes: Uint8Array): Promise<PDFDocument> {
+    return await PDFDocument.load(pdfBytes, { updateMetadata: false });
+}
+
+/**
+ * Reads all named destinations from a PDF document.
+ *
+ * Chrome writes a named destination for every element that is the target of an internal link
+ * (`<a href="#some-id">`), keyed by the element's ID. Depending on the producer, named destinations
+ * are either stored in the catalog's `/Dests` dictionary (PDF 1.1 style, used by Chrome) or in the
+ * `/Names /Dests` name tree (PDF 1.2+). Both forms are supported here.
+ *
+ * @param pdfDoc The loaded `PDFDocument` to read the destinations from.
+ * @returns {Map<string, PdfDestination>} A map from destination name (the anchor ID) to its location.
+ */
+export function readNamedDestinations(pdfDoc: PDFDocument): Map<string, PdfDestination> {
+    const destinations = new Map<string, PdfDestination>();
+    const pageIndexByRef = new Map<string, number>();
+    pdfDoc.getPages().forEach((page, index) => pageIndexByRef.set(page.ref.toString(), index));
+
+    /**
+     * Helper function: Normalizes a destination value into an explicit destination array and
+     * records it. Destinations can be plain arrays or dictionaries with a `/D` entry.
+     */
+    const addDestination = (name: string, value: unknown) => {
+        let dest = value instanceof PDFRef ? pdfDoc.context.lookup(value) : value;
+        if (dest instanceof PDFDict) {
+            dest = dest.lookup(PDFName.of('D'));
+        }
+        if (!(dest instanceof PDFArray) || dest.size() === 0) {
+            return;
+        }
+        const pageRef = dest.get(0);
+        const pageIndex = pageRef instanceof PDFRef ? pageIndexByRef.get(pageRef.toString()) : undefined;
+        if (pageIndex !== undefined) {
+            destinations.set(name, { pageIndex, dest });
+        }
+    };
+
+    // 1. PDF 1.1 style: /Dests dictionary in the document catalog, keyed by name.
+    const destsDict = pdfDoc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    if (destsDict) {
+        for (const [key, value] of destsDict.entries()) {
+            addDestination(key.decodeText(), value);
+        }
+    }
+
+    /**
+     * Helper function: Recursively walks a name tree node, collecting the leaf entries.
+     */
+    const walkNameTree = (node: PDFDict) => {
+        const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+        if (names) {
+            for (let i = 0; i + 1 < names.size(); i += 2) {
+                const key = names.lookup(i);
+                if (key instanceof PDFString || key instanceof PDFHexString) {
+                    addDestination(key.decodeText(), names.get(i + 1));
+                }
+            }
+        }
+        const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+        if (kids) {
+            for (let i = 0; i < kids.size(); i++) {
+                const kid = kids.lookup(i);
+                if (kid instanceof PDFDict) {
+                    walkNameTree(kid);
+                }
+            }
+        }
+    };
+
+    // 2. PDF 1.2+ style: /Names /Dests name tree, keyed by string.
+    const namesDict = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    const destsTree = namesDict?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    if (destsTree) {
+        walkNameTree(destsTree);
+    }
+
+    return destinations;
+}
+
+/**
+ * Determines the physical page number each named destination (anchor ID) lands on.
+ * This is used for a two-pass render: the first pass produces a PDF whose destinations tell on which
+ * page every sidebar item starts, so the second pass can print these numbers in the table of contents.
+ *
+ * @param pdfDoc The loaded `PDFDocument`, see `loadPdfDocument`.
+ * @returns {Map<string, number>} A map from anchor ID to its one-based page number, counting every page
+ * of the document (including cover and TOC pages).
+ */
+export function readAnchorPageNumbers(pdfDoc: PDFDocument): Map<string, number> {
+    const pageNumbers = new Map<string, number>();
+    for (const [name, destination] of readNamedDestinations(pdfDoc)) {
+        pageNumbers.set(name, destination.pageIndex + 1);
+    }
+    return pageNumbers;
+}
+
+/**
+ * Builds the PDF outline (bookmarks) structure from the Docusaurus sidebar hierarchy.
+ * Every sidebar item becomes a bookmark pointing at its page anchor. Optionally, the headings of each
+ * page are added as nested bookmarks below the page's entry, preserving their relative levels.
+ *
+ * @param sidebarItems The nested sidebar items, as extracted from the Docusaurus site.
+ * @param pageDetails The extracted pages, used to look up the headings of each sidebar item.
+ * @param includeHeadings Whether to add the page headings (e.g. h2/h3) as nested bookmarks.
+ * @returns {OutlineItem[]} The outline items, mirroring the sidebar hierarchy.
+ */
+export function buildOutline(sidebarItems: SidebarItem[], pageDetails: PageDetails[], includeHeadings: boolean): OutlineItem[] {
+    const pageDetailsById = new Map(pageDetails.map(it => [it.id, it] as [string, PageDetails]));
+
+    /**
+     * Helper function: Converts the flat, document-ordered heading list of a page into nested outline items.
+     * A heading becomes a child of the closest preceding heading with a lower level.
+     */
+    const buildHeadingItems = (pageDetail: PageDetails): OutlineItem[] => {
+        const roots: OutlineItem[] = [];
+        const stack: { level: number; item: OutlineItem }[] = [];
+        for (const heading of pageDetail.headings || []) {
+            const item: OutlineItem = { title: heading.title, anchor: heading.id, children: [] };
+            while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+                stack.pop();
+            }
+            if (stack.length > 0) {
+                stack[stack.length - 1].item.children.push(item);
+            } else {
+                roots.push(item);
+            }
+            stack.push({ level: heading.level, item });
+        }
+        return roots;
+    };
+
+    return sidebarItems.map(sidebarItem => {
+        const pageDetail = pageDetailsById.get(sidebarItem.id);
+        const children = buildOutline(sidebarItem.children, pageDetails, includeHeadings);
+        const headingItems = pageDetail && includeHeadings ? buildHeadingItems(pageDetail) : [];
+        return {
+            title: sidebarItem.number ? `${sidebarItem.number} ${sidebarItem.title}` : sidebarItem.title,
+            // Extracted pages, part title pages and the section divider pages of categories without a page
+            // carry their anchor in the merged document.
+            anchor: pageDetail || sidebarItem.part || sidebarItem.children.length > 0 ? sidebarItem.id : '',
+            children: [...headingItems, ...children],
+        };
+    });
+}
+
+/**
+ * Adds a nested outline (bookmarks) to a PDF document and makes PDF readers show it when the file is opened.
+ *
+ * Each outline item is resolved against the named destinations written by Chrome. An item whose anchor has no
+ * destination (e.g. a sidebar category without a page of its own) points to the first descendant that has one;
+ * items without any resolvable destination in their subtree are left out.
+ *
+ * @param pdfDoc The loaded `PDFDocument` to add the outline to, see `loadPdfDocument`.
+ * @param outlineItems The outline items to add, see `buildOutline`.
+ */
+export function addPdfOutline(pdfDoc: PDFDocument, outlineItems: OutlineItem[]): void {
+    const destinations = readNamedDestinations(pdfDoc);
+
+    type ResolvedItem = { title: string; dest: PDFArray; children: ResolvedItem[] };
+
+    /**
+     * Helper function: Resolves the destinations of the outline items, dropping items that cannot be resolved.
+     */
+    const resolveItems = (items: OutlineItem[]): ResolvedItem[] => {
+        const resolved: ResolvedItem[] = [];
+        for (const item of items) {
+            const children = resolveItems(item.children);
+            const dest = destinations.get(item.anchor)?.dest || children[0]?.dest;
+            if (dest) {
+                resolved.push({ title: item.title, dest, children });
+            }
+        }
+        return resolved;
+    };
+
+    /**
+     * Helper function: Writes a level of outline items as a doubly linked list below `parentRef`.
+     * Nested levels are written collapsed (negative `/Count`), so large manuals stay navigable.
+     *
+     * @returns The references of the first and last item of this level.
+     */
+    const writeItems = (items: ResolvedItem[], parentRef: PDFRef): { first: PDFRef; last: PDFRef } => {
+        const refs = items.map(() => pdfDoc.context.nextRef());
+        items.forEach((item, index) => {
+            const dict = pdfDoc.context.obj({}) as PDFDict;
+            dict.set(PDFName.of('Title'), PDFHexString.fromText(item.title));
+            dict.set(PDFName.of('Parent'), parentRef);
+            dict.set(PDFName.of('Dest'), item.dest);
+            if (index > 0) {
+                dict.set(PDFName.of('Prev'), refs[index - 1]);
+            }
+            if (index < refs.length - 1) {
+                dict.set(PDFName.of('Next'), refs[index + 1]);
+            }
+            if (item.children.length > 0) {
+                const { first, last } = writeItems(item.children, refs[index]);
+                dict.set(PDFName.of('First'), first);
+                dict.set(PDFName.of('Last'), last);
+                dict.set(PDFName.of('Count'), PDFNumber.of(-item.children.length));
+            }
+            pdfDoc.context.assign(refs[index], dict);
+        });
+        return { first: refs[0], last: refs[refs.length - 1] };
+    };
+
+    const resolvedItems = resolveItems(outlineItems);
+    console.log(`[PDF Outline] Resolved ${resolvedItems.length} top-level bookmarks from ${destinations.size} named destinations.`);
+    if (resolvedItems.length === 0) {
+        return;
+    }
+
+    const outlineRef = pdfDoc.context.nextRef();
+    const { first, last } = writeItems(resolvedItems, outlineRef);
+    pdfDoc.context.assign(outlineRef, pdfDoc.context.obj({
+        Type: 'Outlines',
+        First: first,
+        Last: last,
+        Count: resolvedItems.length,
+    }));
+    pdfDoc.catalog.set(PDFName.of('Outlines'), outlineRef);
+    pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+/**
+ * A PDF document whose pages are drawn on top of a range of pages of another document, see `overlayPdfPages`.
+ */
+export interface PdfOverlay {
+    /**
+     * The overlay document, e.g. a header/footer layer printed by Chrome for a range of pages.
+     */
+    pdfBytes: Uint8Array;
+    /**
+     * The zero-based index of the page of the base document the first overlay page is drawn on.
+     * The following overlay pages are drawn on the following pages.
+     */
+    firstPageIndex: number;
+}
+
+/**
+ * Draws the pages of one or more overlay documents on top of the pages of a base document. The overlay pages are
+ * embedded as form XObjects, so the text and links of the base document, its named destinations and its outline
+ * are kept as they are. Annotations of the overlay pages (e.g. links) are not carried over.
+ *
+ * @param pdfDoc The loaded base `PDFDocument` to draw on, see `loadPdfDocument`.
+ * @param overlays The overlay documents and the pages they are drawn on.
+ * @returns {Promise<void>} A Promise that resolves once the overlays are drawn on.
+ */
+export async function overlayPdfPages(pdfDoc: PDFDocument, overlays: PdfOverlay[]): Promise<void> {
+    const pages = pdfDoc.getPages();
+    for (const overlay of overlays) {
+        const overlayDoc = await loadPdfDocument(overlay.pdfBytes);
+        const overlayPageCount = Math.min(overlayDoc.getPageCount(), pages.length - overlay.firstPageIndex);
+        if (overlayPageCount <= 0) {
+            continue;
+        }
+        const pageIndices = Array.from({ length: overlayPageCount }, (_, index) => index);
+        const embeddedPages = await pdfDoc.embedPdf(overlayDoc, pageIndices);
+        embeddedPages.forEach((embeddedPage, index) => {
+            const page = pages[overlay.firstPageIndex + index];
+            page.drawPage(embeddedPage, { x: 0, y: 0, width: page.getWidth(), height: page.getHeight() });
+        });
+    }
+}
+
+/**
+ * Merges PDF files, e.g. the chunks of a document that were printed separately, into one PDF document.
+ *
+ * The named destinations of all files are carried over into the merged document, so anchors can be resolved as in
+ * a document printed in one piece (see `readAnchorPageNumbers` and `addPdfOutline`). Internal links are pointed at
+ * the explicit destination of their anchor, and links to a placeholder URL (`<anchorUrlPrefix><URI-encoded anchor ID>`,
+ * see `linkAnchorsAcrossChunks`) are turned into internal links, so that links work across the merged files.
+ * Placeholder links to anchors found in none of the files are removed.
+ *
+ * The files are loaded one after another, but the merged document holds the pages of all of them, so the memory used
+ * grows with the size of the whole document, not with the size of the largest file.
+ *
+ * @param pdfPaths The paths of the PDF files, in document order.
+ * @param anchorUrlPrefix The URL prefix of links to anchors in other files.
+ * @returns {Promise<PDFDocument>} A Promise that resolves to the merged document, ready for further post-processing.
+ */
+export async function mergePdfFiles(pdfPaths: string[], anchorUrlPrefix: string): Promise<PDFDocument> {
+    const mergedDoc = await PDFDocument.create();
+    const destinations = new Map<string, PDFArray>();
+    for (const pdfPath of pdfPaths) {
+        const pdfDoc = await loadPdfDocument(fs.readFileSync(pdfPath));
+        const copiedPages = await mergedDoc.copyPages(pdfDoc, pdfDoc.getPageIndices());
+        copiedPages.forEach(page => mergedDoc.addPage(page));
+        // The destination arrays start with the page reference, followed by direct values like `/XYZ left top zoom`.
+        for (const [name, destination] of readNamedDestinations(pdfDoc)) {
+            const copiedDest = [copiedPages[destination.pageIndex].ref, ...destination.dest.asArray().slice(1)];
+            destinations.set(name, mergedDoc.context.obj(copiedDest));
+        }
+    }
+    
+    /**
+     * Helper function: Decodes a percent-encoded anchor ID, falling back to the raw value for malformed input.
+     */
+    const safeDecode = (value: string): string => {
+        try {
+            return decodeURIComponent(value);
+        } catch (e) {
+            return value;
+        }
+    };
+    
+    let resolvedLinks = 0;
+    let removedLinks = 0;
+    for (const page of mergedDoc.getPages()) {
+        const annots = page.node.Annots();
+        if (!annots) {
+            continue;
+        }
+        for (let index = annots.size() - 1; index >= 0; index--) {
+            const annot = annots.lookup(index);
+            if (!(annot instanceof PDFDict)) {
+                continue;
+            }
+            const namedDest = annot.get(PDFName.of('Dest'));
+            if (namedDest instanceof PDFName || namedDest instanceof PDFString || namedDest instanceof PDFHexString) {
+                const dest = destinations.get(namedDest.decodeText());
+                if (dest) {
+                    annot.set(PDFName.of('Dest'), dest);
+                }
+                continue;
+            }
+            const uri = annot.lookupMaybe(PDFName.of('A'), PDFDict)?.lookup(PDFName.of('URI'));
+            const uriText = uri instanceof PDFString || uri instanceof PDFHexString ? uri.decodeText() : '';
+            if (!uriText.startsWith(anchorUrlPrefix)) {
+                continue;
+            }
+            const dest = destinations.get(safeDecode(uriText.substring(anchorUrlPrefix.length)));
+            if (dest) {
+                annot.delete(PDFName.of('A'));
+                annot.set(PDFName.of('Dest'), dest);
+                resolvedLinks++;
+            } else {
+                annots.remove(index);
+                removedLinks++;
+            }
+        }
+    }
+    
+    const destsDict = mergedDoc.context.obj({});
+    destinations.forEach((dest, name) => destsDict.set(PDFName.of(name), dest));
+    mergedDoc.catalog.set(PDFName.of('Dests'), mergedDoc.context.register(destsDict));
+    console.log(`[PDF Merge] Merged ${pdfPaths.length} files into ${mergedDoc.getPageCount()} pages with ${destinations.size} named destinations; resolved ${resolvedLinks} links between the files${removedLinks > 0 ? `, removed ${removedLinks} links to missing anchors` : ''}.`);
+    return mergedDoc;
+}
+
+/**
+ * Writes the document metadata (title, author, subject, keywords, creator and language) into a PDF document,
+ * so PDF readers and document management systems show a proper title instead of "Untitled" or the file name.
+ * The producer and creation date written by Chrome are kept; the modification date is set to now.
+ *
+ * @param pdfDoc The loaded `PDFDocument` to write the metadata into, see `loadPdfDocument`.
+ * @param metadata The metadata to write. Empty values are left out.
+ */
+export function setPdfMetadata(pdfDoc: PDFDocument, metadata: PdfMetadata): void {
+    if (metadata.title) {
+        // Also makes PDF readers show the title instead of the file name in their title bar.
+        pdfDoc.setTitle(metadata.title, { showInWindowTitleBar: true });
+    }
+    if (metadata.author) {
+        pdfDoc.setAuthor(metadata.author);
+    }
+    if (metadata.subject) {
+        pdfDoc.setSubject(metadata.subject);
+    }
+    if (metadata.keywords.length > 0) {
+        pdfDoc.setKeywords(metadata.keywords);
+    }
+    if (metadata.creator) {
+        pdfDoc.setCreator(metadata.creator);
+    }
+    if (metadata.language) {
+        pdfDoc.setLanguage(metadata.language);
+    }
+    pdfDoc.setModificationDate(new Date());
+}
@@ -0,0 +1,280 @@
+import http from "node:http";
+import path from "node:path";
+import * as fs from "node:fs";
+import {AddressInfo} from "node:net";
+import {createHash} from "node:crypto";
+
+/**
+ * A local HTTP server serving the static output of `docusaurus build`.
+ */
+export interface StaticSiteServer {
+    /**
+     * The URL of the site root on the local server, including the site's `baseUrl`
+     * (e.g. "http://127.0.0.1:45123/my-docs/").
+     */
+    siteUrl: string;
+    /**
+     * The `baseUrl` the site was built with (e.g. "/" or "/my-docs/").
+     */
+    baseUrl: string;
+    /**
+     * The public URL of the site, as detected from the canonical link of the home page
+     * (e.g. "https://example.com/my-docs/"), or undefined if the site does not declare one.
+     */
+    publicSiteUrl?: string;
+    /**
+     * Stops the server.
+     */
+    close: () => Promise<void>;
+}
+
+/**
+ * The content types of the files found in a Docusaurus build, by file extension.
+ * Other files are served as `application/octet-stream`.
+ */
+const CONTENT_TYPES: { [extension: string]: string } = {
+    '.html': 'text/html; charset=utf-8',
+    '.htm': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.mjs': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.xml': 'application/xml; charset=utf-8',
+    '.txt': 'text/plain; charset=utf-8',
+    '.map': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+    '.ico': 'image/x-icon',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+    '.eot': 'application/vnd.ms-fontobject',
+    '.wasm': 'application/wasm',
+    '.pdf': 'application/pdf',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+};
+
+/**
+ * Detects the `baseUrl` a Docusaurus site was built with from its home page. Every page of a Docusaurus build
+ * loads the main bundle from `<baseUrl>assets/js/main.<hash>.js`, so the prefix of that URL is the base URL.
+ *
+ * @param indexHtml The content of the `index.html` file at the root of the build directory.
+ * @returns {string | undefined} The base URL (always starting and ending with "/"), or undefined if it cannot be detected.
+ */
+export function detectBaseUrl(indexHtml: string): string | undefined {
+    const match = indexHtml.match(/src="(?:https?:\/\/[^/"]+)?(\/[^"]*?)assets\/js\/(?:main|runtime~main)\.[^"]*\.js"/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Detects the public URL of a Docusaurus site from the canonical link of its home page, which Docusaurus
+ * writes from the `url` and `baseUrl` settings of `docusaurus.config.js`.
+ *
+ * @param indexHtml The content of the `index.html` file at the root of the build directory.
+ * @param baseUrl The base URL of the site, see `detectBaseUrl`.
+ * @returns {string | undefined} The public URL of the site root (ending with "/"), or undefined if there is no canonical link.
+ */
+export function detectPublicSiteUrl(indexHtml: string, baseUrl: string): string | undefined {
+    const match = indexHtml.match(/<link[^>]*rel="canonical"[^>]*href="(https?:\/\/[^"]+)"/)
+        || indexHtml.match(/<link[^>]*href="(https?:\/\/[^"]+)"[^>]*rel="canonical"/);
+    if (!match) {
+        return undefined;
+    }
+    try {
+        return new URL(baseUrl, match[1]).href;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Resolves a request path (relative to the site's base URL) to a file in the build directory, the way static hosts
+ * serve Docusaurus builds. This covers both `trailingSlash` settings: `docs/intro` is served from `docs/intro.html`
+ * (trailingSlash: false) or from `docs/intro/index.html` (trailingSlash: true or undefined), with or without
+ * the trailing slash in the request.
+ *
+ * @param buildDir The absolute path of the build directory.
+ * @param relativePath The decoded request path below the base URL, e.g. "docs/intro/".
+ * @returns {string | undefined} The absolute path of the file to serve, or undefined if there is none.
+ */
+function resolveBuildFile(buildDir: string, relativePath: string): string | undefined {
+    const filePath = path.resolve(buildDir, '.' + path.posix.normalize('/' + relativePath));
+    // Never serve anything outside the build directory, e.g. for "/../secret" requests.
+    if (filePath !== buildDir && !filePath.startsWith(buildDir + path.sep)) {
+        return undefined;
+    }
+    const isFile = (candidate: string) => fs.existsSync(candidate) && fs.statSync(candidate).isFile();
+
+    const candidates = relativePath.endsWith('/') || relativePath === ''
+        ? [path.join(filePath, 'index.html'), filePath + '.html']
+        : [filePath, filePath + '.html', path.join(filePath, 'index.html')];
+    return candidates.find(isFile);
+}
+
+/**
+ * Helper function: Returns the `ETag` of a file, a hash of its content, as `docusaurus build` rewrites every file,
+ * changed or not. ETags are kept per path, size and modification time, so every file is only hashed once. HTML
+ * documents are hashed right away, as the page cache asks for their ETags up front; other files (bundles, fonts,
+ * images and videos) are hashed while streaming them, so large files do not block the server.
+ *
+ * @param filePath The absolute path of the file.
+ * @param stats The file's stats.
+ * @param etags The ETags computed so far, by path.
+ * @returns {Promise<string>} A Promise that resolves to the quoted ETag.
+ */
+async function getFileEtag(filePath: string, stats: fs.Stats, etags: Map<string, { size: number; mtimeMs: number; etag: string }>): Promise<string> {
+    const known = etags.get(filePath);
+    if (known && known.size === stats.size && known.mtimeMs === stats.mtimeMs) {
+        return known.etag;
+    }
+    const hash = createHash('sha1');
+    if (/\.html?$/i.test(filePath)) {
+        hash.update(fs.readFileSync(filePath));
+    } else {
+        await new Promise<void>((resolve, reject) => {
+            fs.createReadStream(filePath).on('data', chunk => hash.update(chunk)).on('end', () => resolve()).on('error', reject);
+        });
+    }
+    const etag = `"${hash.digest('hex')}"`;
+    etags.set(filePath, { size: stats.size, mtimeMs: stats.mtimeMs, etag });
+    return etag;
+}
+
+/**
+ * Starts a local HTTP server for the static output of `docusaurus build` on an ephemeral port of 127.0.0.1,
+ * so the documentation can be converted without running `docusaurus serve` or any other server.
+ *
+ * Requests outside the base URL, and files that do not exist, are answered with the site's `404.html`
+ * and a 404 status, like a static host would.
+ *
+ * @param buildDir The path of the build directory (usually "build").
+ * @param baseUrl Optional. The `baseUrl` the site was built with. Detected from the home page if omitted.
+ * @returns {Promise<StaticSiteServer>} A Promise that resolves to the running server.
+ * @throws {Error} If the build directory does not exist or contains no `index.html`.
+ */
+export async function startStaticSiteServer(buildDir: string, baseUrl?: string): Promise<StaticSiteServer> {
+    const root = path.resolve(buildDir);
+    const indexPath = path.join(root, 'index.html');
+    if (!fs.existsSync(indexPath)) {
+        throw new Error(`Build directory "${root}" contains no index.html. Run "docusaurus build" first, or check the path.`);
+    }
+    const indexHtml = fs.readFileSync(indexPath, 'utf-8');
+
+    let resolvedBaseUrl = baseUrl || detectBaseUrl(indexHtml);
+    if (!resolvedBaseUrl) {
+        console.warn(`[Static Server] Could not detect the base URL of the build. Assuming "/"; set the base URL explicitly if the site uses another one.`);
+        resolvedBaseUrl = '/';
+    }
+    resolvedBaseUrl = ('/' + resolvedBaseUrl + '/').replace(/\/+/g, '/');
+    const notFoundPath = path.join(root, '404.html');
+    const etags = new Map<string, { size: number; mtimeMs: number; etag: string }>();
+
+    const server = http.createServer((request, response) => {
+        const sendFile = async (filePath: string, statusCode: number) => {
+            const headers: http.OutgoingHttpHeaders = {
+                'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+                'Cache-Control': 'no-cache',
+            };
+            if (statusCode === 200) {
+                // Validators let the page and asset caches tell which files changed since the last run,
+                // see `fetchPageHeaderValidators` and `AssetCache`.
+                const stats = fs.statSync(filePath);
+                headers['ETag'] = await getFileEtag(filePath, stats, etags);
+                headers['Last-Modified'] = stats.mtime.toUTCString();
+                if (request.headers['if-none-match'] === headers['ETag']) {
+                    response.writeHead(304, headers);
+                    response.end();
+                    return;
+                }
+            }
+            response.writeHead(statusCode, headers);
+            if (request.method === 'HEAD') {
+                response.end();
+                return;
+            }
+            fs.createReadStream(filePath).on('error', () => response.end()).pipe(response);
+        };
+        const sendNotFound = () => {
+            if (fs.existsSync(notFoundPath)) {
+                sendFile(notFoundPath, 404).catch(() => response.destroy());
+            } else {
+                response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+                response.end('Not Found');
+            }
+        };
+
+        if (request.method !== 'GET' && request.method !== 'HEAD') {
+            response.writeHead(405, { 'Allow': 'GET, HEAD' });
+            response.end();
+            return;
+        }
+        let pathname: string;
+        try {
+            pathname = decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname);
+        } catch (e) {
+            sendNotFound();
+            return;
+        }
+        // The base URL without its trailing slash (e.g. "/my-docs") is the site root as well.
+        if (pathname + '/' === resolvedBaseUrl) {
+            pathname = resolvedBaseUrl;
+        }
+        if (!pathname.startsWith(resolvedBaseUrl)) {
+            sendNotFound();
+            return;
+        }
+        const filePath = resolveBuildFile(root, pathname.substring(resolvedBaseUrl.length));
+        if (filePath) {
+            sendFile(filePath, 200).catch(() => response.destroy());
+        } else {
+            sendNotFound();
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        // Port 0 lets the operating system pick a free port.
+        server.listen(0, '127.0.0.1', () => resolve());
+    });
+    const { port } = server.address() as AddressInfo;
+    const siteUrl = `http://127.0.0.1:${port}${resolvedBaseUrl}`;
+    console.log(`[Static Server] Serving build directory "${root}" at ${siteUrl}`);
+
+    return {
+        siteUrl,
+        baseUrl: resolvedBaseUrl,
+        publicSiteUrl: detectPublicSiteUrl(indexHtml, resolvedBaseUrl),
+        close: () => new Promise<void>(resolve => {
+            // Browser keep-alive connections would otherwise keep the server open.
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
+
+/**
+ * Maps a documentation URL or path to the same page on the local server, so that `--docs-url` can be given
+ * as a path ("docs/intro", "/docs/intro") or as the URL of the deployed site ("https://example.com/docs/intro").
+ *
+ * @param url The URL or path to map. Paths are relative to the site's base URL unless they already start with it.
+ * @param server The running local server.
+ * @returns {string} The absolute URL of the page on the local server.
+ */
+export function toLocalSiteUrl(url: string, server: StaticSiteServer): string {
+    const isAbsoluteUrl = /^https?:\/\//i.test(url);
+    const parsed = new URL(url, isAbsoluteUrl ? undefined : 'http://localhost/');
+    let pathname = parsed.pathname;
+    if (!isAbsoluteUrl && !url.startsWith('/')) {
+        pathname = server.baseUrl + url.replace(/[?#].*$/, '');
+    } else if (!pathname.startsWith(server.baseUrl) && pathname + '/' !== server.baseUrl) {
+        pathname = server.baseUrl + pathname.replace(/^\/+/, '');
+    }
+    return new URL(pathname + parsed.search + parsed.hash, server.siteUrl).href;
+}
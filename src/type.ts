@@ -33,6 +33,97 @@ export interface SidebarItem {
      * containing nested documents or sub-categories.
      */
     children: SidebarItem[];
+    /**
+     * Optional. Whether this item is a top-level part that groups a whole docs sidebar
+     * (e.g. "Guides", "API") when several sidebars are exported into one document.
+     * Parts get a title page of their own, which carries the item's `id` as its anchor.
+     */
+    part?: boolean;
+    /**
+     * Optional. The hierarchical section number of the item when heading numbering is enabled,
+     * e.g. "1" for a top-level item and "1.2" for its second child. Parts are not numbered.
+     */
+    number?: string;
+}
+
+/**
+ * Selects the pages of the sidebar to export, see `filterSidebarItems`. All criteria are optional;
+ * without any, every page is exported.
+ */
+export interface SidebarFilter {
+    /**
+     * Glob patterns of the page paths to export, e.g. 'docs/getting-started/**'. Pages matching none are left out.
+     */
+    include?: string[];
+    /**
+     * Glob patterns of the page paths to leave out, e.g. 'docs/internal/**'. Wins over `include`.
+     */
+    exclude?: string[];
+    /**
+     * Titles of the sidebar categories (or sidebars, see `SidebarItem.part`) to export, e.g. 'Getting Started'.
+     * Pages outside all of them are left out.
+     */
+    categories?: string[];
+    /**
+     * Titles of the sidebar categories (or sidebars) to leave out, e.g. 'Deprecated'. Wins over `categories`.
+     */
+    excludeCategories?: string[];
+}
+
+/**
+ * Selects the browser used for the conversion and how it is launched, see `launchBrowser`.
+ */
+export interface BrowserOptions {
+    /**
+     * Optional. The path of a Chrome or Chromium executable to launch instead of Puppeteer's bundled browser,
+     * e.g. "/usr/bin/google-chrome".
+     */
+    executablePath?: string;
+    /**
+     * Optional. The WebSocket URL of a running browser to connect to instead of launching one,
+     * e.g. "ws://127.0.0.1:9222/devtools/browser/<id>".
+     */
+    browserWSEndpoint?: string;
+    /**
+     * Optional. The HTTP URL of the DevTools endpoint of a running browser to connect to instead of launching one,
+     * e.g. "http://127.0.0.1:9222".
+     */
+    browserURL?: string;
+    /**
+     * Optional. Additional command-line arguments for the launched browser, e.g. '--disable-dev-shm-usage'.
+     */
+    browserArgs?: string[];
+    /**
+     * Optional. Whether to leave out the default arguments that weaken the browser's security: `--no-sandbox`,
+     * `--disable-setuid-sandbox`, `--disable-web-security` and `--disable-features=IsolateOrigins,site-per-process`.
+     * With the same-origin policy enabled, assets from other origins need proper CORS headers.
+     */
+    secureBrowser?: boolean;
+}
+
+/**
+ * The credentials for HTTP basic authentication.
+ */
+export interface BasicAuthCredentials {
+    username: string;
+    password: string;
+}
+
+/**
+ * The authentication applied to every browser page that loads documentation, see `openPage`.
+ * Cookies (from a cookie jar or a login script) are shared by all pages of the browser context and are not part of it.
+ */
+export interface PageAuthentication {
+    /**
+     * The HTTP headers added to every request to one of the `origins`, including the `Authorization`
+     * header for basic authentication.
+     */
+    headers: { [name: string]: string };
+    /**
+     * The origins of the documentation site (e.g. "https://docs.example.com"). Requests to other origins,
+     * such as CDNs or analytics, are sent without the headers, so the credentials do not leak to third parties.
+     */
+    origins: string[];
 }
 
 /**
@@ -62,8 +153,228 @@ export interface PageDetails {
      * This HTML snippet is typically what will be merged into the final PDF document.
      */
     html: string;
+    /**
+     * The headings (e.g. h2/h3) found in the page content, in document order.
+     * These are used to add per-page entries to the PDF outline (bookmarks).
+     */
+    headings: PageHeading[];
+    /**
+     * Optional. The h2-h4 headings of the page that were numbered, when heading numbering is enabled.
+     * Used to add the numbers to the text of cross-reference links pointing to them.
+     */
+    numberedHeadings?: NumberedAnchor[];
+    /**
+     * The error message if the page could not be extracted, even after all retries.
+     * In that case `html` contains a placeholder page naming the missing document.
+     */
+    error?: string;
+    /**
+     * The client-rendered components (e.g. "Mermaid diagrams (1)") that had not finished rendering when
+     * the render timeout expired. The page was captured anyway; these components may be blank or raw source.
+     */
+    renderTimeouts?: string[];
+}
+
+/**
+ * Represents a heading inside the content of a documentation page.
+ */
+export interface PageHeading {
+    /**
+     * The `id` attribute of the heading element, used as its anchor in the merged document.
+     */
+    id: string;
+    /**
+     * The visible text of the heading, without Docusaurus' hash-link marker.
+     */
+    title: string;
+    /**
+     * The heading level, e.g. 2 for `<h2>` and 3 for `<h3>`.
+     */
+    level: number;
 }
 
+/**
+ * An anchor of the merged document together with its section number, e.g. a heading numbered "1.2.3".
+ */
+export interface NumberedAnchor {
+    /**
+     * The ID of the anchor element in the merged document.
+     */
+    anchor: string;
+    /**
+     * The hierarchical section number, e.g. "1.2.3".
+     */
+    number: string;
+    /**
+     * The title of the section, without its number.
+     */
+    title: string;
+}
+
+/**
+ * Represents a single entry of the PDF outline (the bookmarks pane of a PDF reader).
+ */
+export interface OutlineItem {
+    /**
+     * The text shown for this bookmark.
+     */
+    title: string;
+    /**
+     * The anchor ID in the merged document that this bookmark points to.
+     * For categories without a page of their own this can be empty; the bookmark then
+     * points to the first descendant that has a destination.
+     */
+    anchor: string;
+    /**
+     * Nested bookmarks shown below this entry.
+     */
+    children: OutlineItem[];
+}
+
+/**
+ * Represents one version/locale combination of a Docusaurus documentation site,
+ * which is exported to its own PDF file.
+ */
+export interface DocsVariant {
+    /**
+     * The version name, as shown in the navbar version dropdown (e.g. '2.x', 'Next').
+     * Empty if the site is not versioned.
+     */
+    version: string;
+    /**
+     * The locale, as declared by the `<html lang>` attribute of the pages (e.g. 'en', 'zh-Hans').
+     * Empty if the site does not declare one.
+     */
+    locale: string;
+    /**
+     * The URL of the documentation page to start from for this version and locale.
+     */
+    docsUrl: string;
+}
+
+/**
+ * The time spent in each stage of a conversion, in milliseconds.
+ */
+export interface ConversionTimings {
+    /** Launching the browser and loading the cover image. */
+    setupMs: number;
+    /** Building the sidebar structure and extracting the content of all pages. */
+    extractionMs: number;
+    /** Merging the extracted content and preparing it for printing. */
+    renderingMs: number;
+    /** Printing the PDF, including post-processing such as bookmarks. */
+    pdfMs: number;
+    /** The whole conversion of this output, from start to finish. */
+    totalMs: number;
+}
+
+/**
+ * Describes one PDF file written by a conversion.
+ */
+export interface PdfOutputResult {
+    /** The absolute path of the written PDF file. */
+    pdfPath: string;
+    /** The version/locale combination of the documentation that was exported to this file. */
+    variant: DocsVariant;
+    /** The number of pages of the PDF file. */
+    pageCount: number;
+    /** The number of documentation pages exported into the PDF file, including failed ones. */
+    documentCount: number;
+    /** The documentation pages that could not be extracted and were replaced by placeholder pages. */
+    failedPages: PageDetails[];
+    /** The documentation pages whose client-rendered content did not finish rendering in time, see `PageDetails.renderTimeouts`. */
+    timedOutPages: PageDetails[];
+    /** The time spent in each stage of the conversion. */
+    timings: ConversionTimings;
+}
+
+/**
+ * The result of a conversion, which can write several PDF files (e.g. one per version and locale).
+ */
+export interface ConversionResult {
+    /** The PDF files that were written, in the order they were generated. */
+    outputs: PdfOutputResult[];
+    /** The documentation pages that could not be extracted, across all outputs. */
+    failedPages: PageDetails[];
+    /** The documentation pages whose client-rendered content did not finish rendering in time, across all outputs. */
+    timedOutPages: PageDetails[];
+    /** The time the whole conversion took, in milliseconds. */
+    totalMs: number;
+}
+
+/**
+ * The values of the custom tokens of header and footer templates, see `fillHeaderFooterTemplate`.
+ */
+export interface HeaderFooterTokens {
+    /** The title of the document, replacing `{docTitle}`. */
+    docTitle: string;
+    /** The title of the top-level sidebar category the page belongs to, replacing `{chapter}`. Empty on the cover and TOC pages. */
+    chapter: string;
+    /** The documentation version, replacing `{version}`. Empty if the site is not versioned. */
+    version: string;
+    /** The date the PDF was generated, formatted for the language of the documentation, replacing `{buildDate}`. */
+    buildDate: string;
+}
+
+/**
+ * The values available in a cover page template, see `generateTemplatedCoverHtml`.
+ * Images are given as data URLs, so they render regardless of where they were loaded from.
+ */
+export interface CoverValues {
+    /** The title of the document. */
+    title: string;
+    /** The subtitle, by default the site's tagline (the meta description of its home page). */
+    subtitle: string;
+    /** The logo as a data URL, by default the navbar logo. Empty if there is none. */
+    logo: string;
+    /** The cover image (`pdfCoverImage`) as a data URL. Empty if there is none. */
+    image: string;
+    /** The documentation version. Empty if the site is not versioned. */
+    version: string;
+    /** The date the PDF was generated, formatted for the language of the documentation. */
+    date: string;
+    /** The organization publishing the documentation. Empty if not given. */
+    organization: string;
+    /** The legal notice, by default the site's footer copyright. Empty if there is none. */
+    legalNotice: string;
+    /** The width of the page, including its unit (e.g. "210mm"). */
+    pageWidth: string;
+    /** The height of the page, including its unit (e.g. "297mm"). */
+    pageHeight: string;
+}
+
+/**
+ * The document metadata written into the PDF's Info dictionary, see `setPdfMetadata`.
+ */
+export interface PdfMetadata {
+    /** The document title, shown by PDF readers and document management systems instead of the file name. */
+    title: string;
+    /** The author of the document. Left out if empty. */
+    author: string;
+    /** The subject (description) of the document. Left out if empty. */
+    subject: string;
+    /** The keywords of the document. Left out if empty. */
+    keywords: string[];
+    /** The application that created the original document. */
+    creator: string;
+    /** The natural language of the document (e.g. 'en', 'zh-Hans'). Left out if empty. */
+    language: string;
+}
+
+/**
+ * Which panels of Docusaurus `<Tabs>` are exported: all of them, each labeled with its tab title,
+ * or only the first one.
+ */
+export type TabsMode = 'first' | 'all';
+
+/**
+ * The built-in print stylesheets, see `PRINT_PRESETS`:
+ * - `compact`: smaller type and tighter spacing, for fewer pages.
+ * - `serif`: a serif body font with comfortable line spacing and hyphenation, for reading on paper.
+ * - `high-contrast`: black on white without colored backgrounds, for black-and-white laser printers.
+ */
+export type PrintPreset = 'compact' | 'serif' | 'high-contrast';
+
 /**
  * Defines the dimensions for a standard paper format.
  */
@@ -76,11 +387,79 @@ export type PaperFormat = {
 
 /**
  * A map containing predefined dimensions for common paper formats.
- * Use these keys (e.g., 'A4', 'Letter') when generating covers.
+ * Use these keys (e.g., 'A4', 'Letter') with `--paper-format`; lookups are case-insensitive.
+ * The values are always given in portrait orientation.
  */
 export const PAPER_FORMATS: { [key: string]: PaperFormat } = {
+    A0: { widthMm: 841, heightMm: 1189 },
+    A1: { widthMm: 594, heightMm: 841 },
+    A2: { widthMm: 420, heightMm: 594 },
+    A3: { widthMm: 297, heightMm: 420 },
     A4: { widthMm: 210, heightMm: 297 },
-    Letter: { widthMm: 216, heightMm: 279 }, // US Letter size in mm (approx)
-    // Add more formats here as needed
-    // Tabloid: { widthMm: 279, heightMm: 432 },
-};
\ No newline at end of file
+    A5: { widthMm: 148, heightMm: 210 },
+    A6: { widthMm: 105, heightMm: 148 },
+    B4: { widthMm: 250, heightMm: 353 },
+    B5: { widthMm: 176, heightMm: 250 },
+    Letter: { widthMm: 215.9, heightMm: 279.4 }, // US Letter, 8.5in x 11in
+    Legal: { widthMm: 215.9, heightMm: 355.6 }, // US Legal, 8.5in x 14in
+    Tabloid: { widthMm: 279.4, heightMm: 431.8 }, // 11in x 17in
+    Ledger: { widthMm: 431.8, heightMm: 279.4 }, // 17in x 11in, landscape by definition
+    Executive: { widthMm: 184.15, heightMm: 266.7 }, // 7.25in x 10.5in
+};
+
+/**
+ * The number of millimeters in one unit of each supported custom-dimension unit.
+ */
+const UNIT_TO_MM: { [unit: string]: number } = {
+    mm: 1,
+    cm: 10,
+    in: 25.4,
+};
+
+/**
+ * Resolves a user-supplied paper format into concrete page dimensions.
+ *
+ * The value can either be one of the names in `PAPER_FORMATS` (case-insensitive, e.g. 'a3', 'Legal'),
+ * or custom dimensions written as `WIDTHxHEIGHT` followed by a unit, e.g. '210x297mm', '8.5x11in'
+ * or '18x24cm'. Custom dimensions without a unit are treated as millimeters.
+ *
+ * @param value The paper format name or custom dimensions.
+ * @param landscape Whether the page should be rotated to landscape orientation, i.e. the
+ * longer side becomes the width.
+ * @returns {PaperFormat} The resolved page dimensions in millimeters.
+ * @throws {Error} If the value is neither a known format name nor valid custom dimensions.
+ */
+export function resolvePaperFormat(value: string, landscape: boolean = false): PaperFormat {
+    const trimmed = (value || '').trim();
+    let format: PaperFormat | undefined;
+    
+    // 1. Named formats (A4, Letter, ...), matched case-insensitively.
+    const formatName = Object.keys(PAPER_FORMATS).find(it => it.toLowerCase() === trimmed.toLowerCase());
+    if (formatName) {
+        format = { ...PAPER_FORMATS[formatName] };
+    } else {
+        // 2. Custom dimensions, e.g. "210x297mm" or "8.5 x 11 in".
+        const match = /^(\d+(?:\.\d+)?)\s*[x×*]\s*(\d+(?:\.\d+)?)\s*(mm|cm|in)?$/i.exec(trimmed);
+        if (match) {
+            const factor = UNIT_TO_MM[(match[3] || 'mm').toLowerCase()];
+            format = {
+                widthMm: parseFloat(match[1]) * factor,
+                heightMm: parseFloat(match[2]) * factor,
+            };
+        }
+    }
+    
+    if (!format || format.widthMm <= 0 || format.heightMm <= 0) {
+        throw new Error(`Unsupported paper format "${value}". Use one of ${Object.keys(PAPER_FORMATS).join(', ')} or custom dimensions like "210x297mm" or "8.5x11in".`);
+    }
+    
+    // Landscape puts the longer side horizontally. Without it, the format is kept as given,
+    // so formats that are landscape by definition (e.g. Ledger, or custom "297x210mm") stay that way.
+    if (landscape) {
+        return {
+            widthMm: Math.max(format.widthMm, format.heightMm),
+            heightMm: Math.min(format.widthMm, format.heightMm),
+        };
+    }
+    return format;
+}